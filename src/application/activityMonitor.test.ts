@@ -0,0 +1,125 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+import * as fs from "fs/promises";
+import * as path from "path";
+import * as os from "os";
+import { ActivityMonitor } from "./activityMonitor";
+import { StorageManager } from "../storage/storage";
+import { CoftConfig } from "./config";
+import { Logger } from "../utils/logger";
+
+function createTestConfig(testRoot: string): CoftConfig {
+  return {
+    root: testRoot,
+    queue: path.join(testRoot, "queue"),
+    queueBatch: path.join(testRoot, "queue_batch"),
+    queueBackup: path.join(testRoot, "queue_backup"),
+    operationQueue: path.join(testRoot, "operation_queue"),
+    operationQueueBackup: path.join(testRoot, "operation_queue_backup"),
+    data: path.join(testRoot, "data"),
+    backup: path.join(testRoot, "backup"),
+    intervalSeconds: 60,
+    viewGroupByMinutes: 15,
+    branchTaskUrl: "",
+    exportDir: "",
+    exportAgeDays: 90,
+    startOfWeek: "monday",
+    editThrottleSeconds: 30,
+    idleThresholdMinutes: 5,
+    outsideWorkspace: "repository",
+  };
+}
+
+suite("ActivityMonitor Test Suite", () => {
+  let testRoot: string;
+  let testConfig: CoftConfig;
+  let storage: StorageManager;
+  let monitor: ActivityMonitor;
+
+  setup(async () => {
+    testRoot = path.join(os.tmpdir(), `coft-activity-monitor-${Date.now()}`);
+    testConfig = createTestConfig(testRoot);
+    const outputChannel = vscode.window.createOutputChannel(
+      "ActivityMonitor Test",
+    );
+    const logger = new Logger(outputChannel, false);
+    storage = new StorageManager(testConfig, logger);
+    await storage.initialize();
+    monitor = new ActivityMonitor(testConfig, storage, logger);
+  });
+
+  teardown(async () => {
+    monitor.stop();
+    try {
+      await fs.rm(testRoot, { recursive: true, force: true });
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  async function readEvents(): Promise<any[]> {
+    const files = (await fs.readdir(testConfig.queue)).sort();
+    const events = [];
+    for (const file of files) {
+      const content = await fs.readFile(
+        path.join(testConfig.queue, file),
+        "utf-8",
+      );
+      for (const line of content.split("\n").filter((line) => line)) {
+        events.push(JSON.parse(line));
+      }
+    }
+    return events;
+  }
+
+  test("windowStateChanged writes focus and blur events", async () => {
+    await monitor.windowStateChanged(false, 1000);
+    await monitor.windowStateChanged(true, 2000);
+    const events = await readEvents();
+    assert.deepStrictEqual(
+      events.map((e) => e.kind),
+      ["blur", "focus"],
+    );
+    assert.strictEqual(events[0].filename, "");
+  });
+
+  test("events carry the window that recorded them", async () => {
+    await monitor.windowStateChanged(true, 1000);
+    await monitor.windowClosed(2000);
+    const events = await readEvents();
+    assert.deepStrictEqual(
+      events.map((e) => e.kind),
+      ["focus", "blur"],
+    );
+    assert.ok(events[0].directory);
+    assert.strictEqual(events[1].directory, events[0].directory);
+  });
+
+  test("checkIdle writes idle event at the last activity time", async () => {
+    await monitor.recordActivity(1000);
+    await (monitor as any).checkIdle(1000 + 5 * 60 * 1000);
+    const events = await readEvents();
+    assert.strictEqual(events.length, 1);
+    assert.strictEqual(events[0].kind, "idle");
+    assert.strictEqual(events[0].timestamp, 1000);
+  });
+
+  test("checkIdle does nothing before the threshold", async () => {
+    await monitor.recordActivity(1000);
+    await (monitor as any).checkIdle(1000 + 60 * 1000);
+    const events = await readEvents();
+    assert.strictEqual(events.length, 0);
+  });
+
+  test("recordActivity after idle writes a single active event", async () => {
+    await monitor.recordActivity(1000);
+    await (monitor as any).checkIdle(1000 + 10 * 60 * 1000);
+    await monitor.recordActivity(1000 + 11 * 60 * 1000);
+    await monitor.recordActivity(1000 + 12 * 60 * 1000);
+    const events = await readEvents();
+    assert.deepStrictEqual(
+      events.map((e) => e.kind),
+      ["idle", "active"],
+    );
+  });
+});
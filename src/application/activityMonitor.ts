@@ -0,0 +1,89 @@
+import * as crypto from "crypto";
+import { CoftConfig } from "./config";
+import { ActivityEventKind, StorageManager } from "../storage/storage";
+import { Logger } from "../utils/logger";
+
+// Tags this window's events; it outlives a configuration reinit. Idle time
+// is only counted while every window is inactive
+const WINDOW_ID = crypto.randomBytes(4).toString("hex");
+
+export class ActivityMonitor {
+  private config: CoftConfig;
+  private storage: StorageManager;
+  private logger: Logger;
+  private timer: NodeJS.Timeout | null = null;
+  private checkIntervalMs: number = 30000;
+  private lastActivity: number = Date.now();
+  private idle: boolean = false;
+
+  constructor(config: CoftConfig, storage: StorageManager, logger: Logger) {
+    this.config = config;
+    this.storage = storage;
+    this.logger = logger;
+  }
+
+  start(): void {
+    this.logger.info(
+      `Starting activity monitor (idle after ${this.config.idleThresholdMinutes} min)`,
+    );
+    this.lastActivity = Date.now();
+    this.idle = false;
+    this.timer = setInterval(() => this.checkIdle(), this.checkIntervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      this.logger.info("Activity monitor stopped");
+    }
+  }
+
+  async recordActivity(now: number = Date.now()): Promise<void> {
+    this.lastActivity = now;
+    if (this.idle) {
+      this.idle = false;
+      await this.writeEvent("active", now);
+    }
+  }
+
+  async windowStateChanged(
+    focused: boolean,
+    now: number = Date.now(),
+  ): Promise<void> {
+    await this.writeEvent(focused ? "focus" : "blur", now);
+    if (focused) {
+      // Focus already marks the return, no separate active event needed
+      this.lastActivity = now;
+      this.idle = false;
+    }
+  }
+
+  // A closed window no longer keeps the user from counting as idle
+  async windowClosed(now: number = Date.now()): Promise<void> {
+    await this.writeEvent("blur", now);
+  }
+
+  private async checkIdle(now: number = Date.now()): Promise<void> {
+    if (this.idle) {
+      return;
+    }
+    const thresholdMs = this.config.idleThresholdMinutes * 60 * 1000;
+    if (now - this.lastActivity >= thresholdMs) {
+      this.idle = true;
+      // The idle stretch began with the last observed activity
+      await this.writeEvent("idle", this.lastActivity);
+    }
+  }
+
+  private async writeEvent(
+    kind: ActivityEventKind,
+    timestamp: number,
+  ): Promise<void> {
+    try {
+      await this.storage.writeActivityEvent(kind, timestamp, WINDOW_ID);
+    } catch (error) {
+      this.logger.error(`Error writing ${kind} event: ${error}`);
+    }
+  }
+}
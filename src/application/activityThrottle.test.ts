@@ -0,0 +1,34 @@
+import * as assert from "assert";
+import { ActivityThrottle } from "./activityThrottle";
+
+suite("ActivityThrottle Test Suite", () => {
+  test("shouldRecord allows the first activity for a key", () => {
+    const throttle = new ActivityThrottle(30000);
+    assert.strictEqual(throttle.shouldRecord("file:///a.ts", 1000), true);
+  });
+
+  test("shouldRecord suppresses activity within the interval", () => {
+    const throttle = new ActivityThrottle(30000);
+    throttle.shouldRecord("file:///a.ts", 1000);
+    assert.strictEqual(throttle.shouldRecord("file:///a.ts", 20000), false);
+  });
+
+  test("shouldRecord allows activity again after the interval", () => {
+    const throttle = new ActivityThrottle(30000);
+    throttle.shouldRecord("file:///a.ts", 1000);
+    assert.strictEqual(throttle.shouldRecord("file:///a.ts", 31000), true);
+  });
+
+  test("shouldRecord throttles each key independently", () => {
+    const throttle = new ActivityThrottle(30000);
+    throttle.shouldRecord("file:///a.ts", 1000);
+    assert.strictEqual(throttle.shouldRecord("file:///b.ts", 2000), true);
+  });
+
+  test("clear forgets previously recorded activity", () => {
+    const throttle = new ActivityThrottle(30000);
+    throttle.shouldRecord("file:///a.ts", 1000);
+    throttle.clear();
+    assert.strictEqual(throttle.shouldRecord("file:///a.ts", 2000), true);
+  });
+});
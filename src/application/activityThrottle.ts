@@ -0,0 +1,21 @@
+export class ActivityThrottle {
+  private intervalMs: number;
+  private lastRecorded: Map<string, number> = new Map();
+
+  constructor(intervalMs: number) {
+    this.intervalMs = intervalMs;
+  }
+
+  shouldRecord(key: string, now: number = Date.now()): boolean {
+    const last = this.lastRecorded.get(key);
+    if (last !== undefined && now - last < this.intervalMs) {
+      return false;
+    }
+    this.lastRecorded.set(key, now);
+    return true;
+  }
+
+  clear(): void {
+    this.lastRecorded.clear();
+  }
+}
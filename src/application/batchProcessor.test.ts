@@ -5,6 +5,7 @@ import * as path from "path";
 import * as os from "os";
 import { StorageManager, BatchEntry } from "../storage/storage";
 import { GitManager } from "../storage/git";
+import { BatchProcessor } from "./batchProcessor";
 import { CoftConfig } from "./config";
 import { Logger } from "../utils/logger";
 
@@ -35,6 +36,9 @@ suite("Batch Test Suite", () => {
       exportDir: "",
       exportAgeDays: 90,
       startOfWeek: "auto",
+      editThrottleSeconds: 30,
+      idleThresholdMinutes: 5,
+      outsideWorkspace: "repository",
     };
 
     outputChannel = vscode.window.createOutputChannel("Batch Test");
@@ -60,9 +64,9 @@ suite("Batch Test Suite", () => {
     await storage.writeQueueEntry("/workspace/project1", "src/util.ts", "main");
     await storage.writeQueueEntry("/workspace/project2", "index.ts", "develop");
 
-    // Move to batch
+    // Move to batch; the entries share one journal segment
     const movedFiles = await storage.moveQueueToBatch();
-    assert.strictEqual(movedFiles.length, 3);
+    assert.strictEqual(movedFiles.length, 1);
 
     // Create batch processor and trigger processing manually via storage
     const batchEntries = await storage.readBatchFiles();
@@ -76,6 +80,43 @@ suite("Batch Test Suite", () => {
     }
   });
 
+  test("BatchProcessor of a follower window only seals its journal", async () => {
+    await storage.writeQueueEntry("/workspace/project1", "src/app.ts", "main");
+    const processor = new BatchProcessor(testConfig, storage, logger);
+
+    processor.setLeader(false);
+    await (processor as any).process();
+    const queueFiles = await fs.readdir(testConfig.queue);
+    assert.ok(queueFiles.every((file) => file.endsWith(".jsonl")));
+    assert.deepStrictEqual(await fs.readdir(testConfig.operationQueue), []);
+
+    processor.setLeader(true);
+    await (processor as any).process();
+    assert.strictEqual((await fs.readdir(testConfig.operationQueue)).length, 1);
+  });
+
+  test("BatchProcessor flush requests a batch in a follower window too", async () => {
+    await storage.writeQueueEntry("/workspace/project1", "src/app.ts", "main");
+    const processor = new BatchProcessor(testConfig, storage, logger);
+    processor.setLeader(false);
+    processor.start();
+
+    await processor.flush();
+
+    assert.strictEqual((processor as any).timer, null);
+    const queueFiles = await fs.readdir(testConfig.queue);
+    assert.ok(queueFiles.every((file) => file.endsWith(".jsonl")));
+    const requests = await fs.readdir(testConfig.operationQueue);
+    assert.strictEqual(requests.length, 1);
+    const request = JSON.parse(
+      await fs.readFile(
+        path.join(testConfig.operationQueue, requests[0]),
+        "utf-8",
+      ),
+    );
+    assert.strictEqual(request.type, "processBatch");
+  });
+
   test("StorageManager should move batch to backup", async () => {
     await storage.writeQueueEntry("/workspace/project1", "src/app.ts", "main");
     await storage.moveQueueToBatch();
@@ -101,7 +142,7 @@ suite("Batch Test Suite", () => {
     assert.strictEqual(batchFiles.length, 0);
 
     const queueFiles = await fs.readdir(testConfig.queue);
-    assert.strictEqual(queueFiles.length, 2);
+    assert.strictEqual(queueFiles.length, 1);
   });
 
   test("StorageManager should delete batch files", async () => {
@@ -114,7 +155,7 @@ suite("Batch Test Suite", () => {
     assert.strictEqual(batchFiles.length, 0);
   });
 
-  test("Queue entry filename should use hash not base64", async () => {
+  test("Queue journal segment name does not depend on the file path", async () => {
     const longPath =
       "src/very/deeply/nested/directory/structure/with/lots/of/subdirectories/file.ts";
     await storage.writeQueueEntry("/workspace/project1", longPath, "main");
@@ -122,11 +163,11 @@ suite("Batch Test Suite", () => {
     const files = await fs.readdir(testConfig.queue);
     assert.strictEqual(files.length, 1);
 
-    // Filename should match timestamp_hash.json pattern (not base64)
-    const filenamePattern = /^\d+_[a-f0-9]{12}\.json$/;
+    // Filename should match the journal_created_instance_sequence pattern
+    const filenamePattern = /^journal_\d+_[0-9a-f]+_\d+\.active$/;
     assert.ok(
       filenamePattern.test(files[0]),
-      `Filename ${files[0]} should match hash pattern`,
+      `Filename ${files[0]} should match journal pattern`,
     );
 
     // Should be well under 255 chars
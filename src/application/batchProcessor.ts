@@ -8,6 +8,9 @@ export class BatchProcessor {
   private storage: StorageManager;
   private logger: Logger;
   private timer: NodeJS.Timeout | null = null;
+  // Only the leader window requests batches; the others only seal their
+  // journal so the leader's batch can claim it
+  private leader: boolean = true;
 
   constructor(config: CoftConfig, storage: StorageManager, logger: Logger) {
     this.config = config;
@@ -26,6 +29,10 @@ export class BatchProcessor {
     );
   }
 
+  setLeader(leader: boolean): void {
+    this.leader = leader;
+  }
+
   stop(): void {
     if (this.timer) {
       clearInterval(this.timer);
@@ -34,21 +41,43 @@ export class BatchProcessor {
     }
   }
 
+  // Last round when the window closes or reinitializes: entries recorded
+  // since the previous interval are sealed and a batch is requested even by
+  // a follower, so whichever window leads next picks them up
+  async flush(): Promise<void> {
+    this.stop();
+    try {
+      await this.storage.rotateQueueJournal();
+      await this.requestBatch();
+    } catch (error) {
+      this.logger.error(`Error flushing batch processor: ${error}`);
+    }
+  }
+
   private async process(): Promise<void> {
     try {
-      const hasFiles = await this.storage.hasQueueFiles();
-      if (!hasFiles) {
+      // Seal this window's journal segment so the batch can claim it
+      await this.storage.rotateQueueJournal();
+      if (!this.leader) {
         return;
       }
-
-      this.logger.debug("Queue files detected, writing ProcessBatchRequest...");
-      await OperationQueueWriter.write(
-        this.storage.operationRepository,
-        { type: "processBatch" },
-        this.logger,
-      );
+      await this.requestBatch();
     } catch (error) {
       this.logger.error(`Error in batch processing: ${error}`);
     }
   }
+
+  private async requestBatch(): Promise<void> {
+    const hasFiles = await this.storage.hasQueueFiles();
+    if (!hasFiles) {
+      return;
+    }
+
+    this.logger.debug("Queue files detected, writing ProcessBatchRequest...");
+    await OperationQueueWriter.write(
+      this.storage.operationRepository,
+      { type: "processBatch" },
+      this.logger,
+    );
+  }
 }
@@ -134,6 +134,27 @@ suite("Config Test Suite", () => {
 
     assert.strictEqual(typeof config.branchTaskUrl, "string");
   });
+
+  test("ConfigManager should validate editThrottleSeconds", () => {
+    const outputChannel = vscode.window.createOutputChannel("Test");
+    const logger = new Logger(outputChannel, true);
+    const configManager = new ConfigManager(logger);
+    const config = configManager.getConfig();
+
+    assert.ok(config.editThrottleSeconds >= 0);
+    assert.ok(config.editThrottleSeconds <= 300);
+  });
+
+  test("ConfigManager should validate outsideWorkspace", () => {
+    const outputChannel = vscode.window.createOutputChannel("Test");
+    const logger = new Logger(outputChannel, true);
+    const configManager = new ConfigManager(logger);
+    const config = configManager.getConfig();
+
+    assert.ok(
+      ["off", "repository", "looseFiles"].includes(config.outsideWorkspace),
+    );
+  });
 });
 
 suite("getStartDayOfWeek Test Suite", () => {
@@ -2,6 +2,7 @@ import * as vscode from "vscode";
 import * as path from "path";
 import * as os from "os";
 import { Logger } from "../utils/logger";
+import { FilePatterns } from "./fileFilter";
 
 export interface CoftConfig {
   root: string;
@@ -18,8 +19,21 @@ export interface CoftConfig {
   exportDir: string;
   exportAgeDays: number;
   startOfWeek: string;
+  editThrottleSeconds: number;
+  idleThresholdMinutes: number;
+  outsideWorkspace: OutsideWorkspaceMode;
 }
 
+// How files outside any workspace folder are tracked: "repository" uses the
+// enclosing git repository and falls back to the loose files pseudo-directory
+export type OutsideWorkspaceMode = "off" | "repository" | "looseFiles";
+
+const OUTSIDE_WORKSPACE_MODES: OutsideWorkspaceMode[] = [
+  "off",
+  "repository",
+  "looseFiles",
+];
+
 export function getStartDayOfWeek(startOfWeek: string): number {
   if (startOfWeek === "sunday") {
     return 0;
@@ -103,6 +117,36 @@ export class ConfigManager {
     // Get start of week
     const startOfWeek = config.get<string>("startOfWeek", "auto");
 
+    // Validate edit throttle seconds (0 disables edit tracking)
+    let editThrottleSeconds = config.get<number>("editThrottleSeconds", 30);
+    if (editThrottleSeconds < 0 || editThrottleSeconds > 300) {
+      this.logger.info(
+        `Warning: editThrottleSeconds (${editThrottleSeconds}) is out of range. Using default value: 30`,
+      );
+      editThrottleSeconds = 30;
+    }
+
+    // Validate idle threshold minutes
+    let idleThresholdMinutes = config.get<number>("idleThresholdMinutes", 5);
+    if (idleThresholdMinutes < 1 || idleThresholdMinutes > 60) {
+      this.logger.info(
+        `Warning: idleThresholdMinutes (${idleThresholdMinutes}) is out of range. Using default value: 5`,
+      );
+      idleThresholdMinutes = 5;
+    }
+
+    // Validate outside workspace mode
+    let outsideWorkspace = config.get<OutsideWorkspaceMode>(
+      "outsideWorkspace",
+      "repository",
+    );
+    if (!OUTSIDE_WORKSPACE_MODES.includes(outsideWorkspace)) {
+      this.logger.info(
+        `Warning: outsideWorkspace (${outsideWorkspace}) is invalid. Using default value: repository`,
+      );
+      outsideWorkspace = "repository";
+    }
+
     return {
       root,
       queue: path.join(root, "queue"),
@@ -118,6 +162,20 @@ export class ConfigManager {
       exportDir,
       exportAgeDays,
       startOfWeek,
+      editThrottleSeconds,
+      idleThresholdMinutes,
+      outsideWorkspace,
+    };
+  }
+
+  getFilePatterns(scope?: vscode.Uri): FilePatterns {
+    // Resource scoped so workspace folder settings can override the patterns
+    const config = vscode.workspace.getConfiguration("coft.smarttime", scope);
+    const include = config.get<string[]>("includePatterns", []);
+    const exclude = config.get<string[]>("excludePatterns", []);
+    return {
+      include: Array.isArray(include) ? include.filter((p) => !!p) : [],
+      exclude: Array.isArray(exclude) ? exclude.filter((p) => !!p) : [],
     };
   }
 
@@ -0,0 +1,39 @@
+import * as assert from "assert";
+import { FileFilter } from "./fileFilter";
+
+suite("FileFilter Test Suite", () => {
+  test("isTracked tracks everything with no patterns", () => {
+    const filter = new FileFilter({ include: [], exclude: [] });
+    assert.strictEqual(filter.isTracked("src/app.ts"), true);
+  });
+
+  test("isTracked rejects files matching an exclude pattern", () => {
+    const filter = new FileFilter({
+      include: [],
+      exclude: ["**/node_modules/**", "**/package-lock.json"],
+    });
+    assert.strictEqual(filter.isTracked("node_modules/lib/index.js"), false);
+    assert.strictEqual(filter.isTracked("packages/a/node_modules/x.js"), false);
+    assert.strictEqual(filter.isTracked("package-lock.json"), false);
+    assert.strictEqual(filter.isTracked("src/app.ts"), true);
+  });
+
+  test("isTracked requires a match when include patterns are set", () => {
+    const filter = new FileFilter({ include: ["src/**"], exclude: [] });
+    assert.strictEqual(filter.isTracked("src/app.ts"), true);
+    assert.strictEqual(filter.isTracked("scratch.md"), false);
+  });
+
+  test("isTracked lets exclude win over include", () => {
+    const filter = new FileFilter({
+      include: ["src/**"],
+      exclude: ["**/*.generated.ts"],
+    });
+    assert.strictEqual(filter.isTracked("src/api.generated.ts"), false);
+  });
+
+  test("isTracked normalizes Windows separators", () => {
+    const filter = new FileFilter({ include: [], exclude: ["dist/**"] });
+    assert.strictEqual(filter.isTracked("dist\\bundle.js"), false);
+  });
+});
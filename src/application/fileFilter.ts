@@ -0,0 +1,28 @@
+import { globToRegExp } from "../utils/glob";
+
+export interface FilePatterns {
+  include: string[];
+  exclude: string[];
+}
+
+export class FileFilter {
+  private include: RegExp[];
+  private exclude: RegExp[];
+
+  constructor(patterns: FilePatterns) {
+    this.include = patterns.include.map((p) => globToRegExp(p));
+    this.exclude = patterns.exclude.map((p) => globToRegExp(p));
+  }
+
+  isTracked(relativePath: string): boolean {
+    const normalized = relativePath.replace(/\\/g, "/");
+    // An empty include list tracks everything that is not excluded
+    if (
+      this.include.length > 0 &&
+      !this.include.some((r) => r.test(normalized))
+    ) {
+      return false;
+    }
+    return !this.exclude.some((r) => r.test(normalized));
+  }
+}
@@ -1,4 +1,10 @@
+export { ActivityMonitor } from "./activityMonitor";
+export { ActivityThrottle } from "./activityThrottle";
 export { BatchProcessor } from "./batchProcessor";
 export { ConfigManager } from "./config";
+export { FileFilter } from "./fileFilter";
+export { LeaderElection } from "./leaderElection";
+export { ManualTimer } from "./manualTimer";
 export { OperationQueueWriter } from "./operationQueueWriter";
 export { OperationQueueProcessor } from "./operationQueueProcessor";
+export { TrackingControl } from "./trackingControl";
@@ -0,0 +1,128 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+import * as fs from "fs/promises";
+import * as path from "path";
+import * as os from "os";
+import { LEADER_LOCK_FILE, LeaderElection } from "./leaderElection";
+import { CoftConfig } from "./config";
+import { Logger } from "../utils/logger";
+
+function createTestConfig(testRoot: string): CoftConfig {
+  return {
+    root: testRoot,
+    queue: path.join(testRoot, "queue"),
+    queueBatch: path.join(testRoot, "queue_batch"),
+    queueBackup: path.join(testRoot, "queue_backup"),
+    operationQueue: path.join(testRoot, "operation_queue"),
+    operationQueueBackup: path.join(testRoot, "operation_queue_backup"),
+    data: path.join(testRoot, "data"),
+    backup: path.join(testRoot, "backup"),
+    intervalSeconds: 60,
+    viewGroupByMinutes: 15,
+    branchTaskUrl: "",
+    exportDir: "",
+    exportAgeDays: 90,
+    startOfWeek: "monday",
+    editThrottleSeconds: 30,
+    idleThresholdMinutes: 5,
+    outsideWorkspace: "repository",
+  };
+}
+
+suite("LeaderElection Test Suite", () => {
+  let testRoot: string;
+  let testConfig: CoftConfig;
+  let logger: Logger;
+  let elections: LeaderElection[];
+
+  setup(async () => {
+    testRoot = path.join(os.tmpdir(), `coft-leader-election-${Date.now()}`);
+    await fs.mkdir(testRoot, { recursive: true });
+    testConfig = createTestConfig(testRoot);
+    const outputChannel = vscode.window.createOutputChannel(
+      "LeaderElection Test",
+    );
+    logger = new Logger(outputChannel, false);
+    elections = [];
+  });
+
+  teardown(async () => {
+    for (const election of elections) {
+      await election.stop();
+    }
+    try {
+      await fs.rm(testRoot, { recursive: true, force: true });
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  function createElection(changes: boolean[]): LeaderElection {
+    const election = new LeaderElection(testConfig, logger, (leader) =>
+      changes.push(leader),
+    );
+    elections.push(election);
+    return election;
+  }
+
+  test("only the first window becomes leader", async () => {
+    const firstChanges: boolean[] = [];
+    const secondChanges: boolean[] = [];
+    const first = createElection(firstChanges);
+    const second = createElection(secondChanges);
+
+    await first.start();
+    await second.start();
+
+    assert.strictEqual(first.isLeader(), true);
+    assert.strictEqual(second.isLeader(), false);
+    assert.deepStrictEqual(firstChanges, [true]);
+    assert.deepStrictEqual(secondChanges, []);
+  });
+
+  test("leadership moves when the leader stops", async () => {
+    const secondChanges: boolean[] = [];
+    const first = createElection([]);
+    const second = createElection(secondChanges);
+    await first.start();
+    await second.start();
+
+    await first.stop();
+    await (second as any).check();
+
+    assert.strictEqual(second.isLeader(), true);
+    assert.deepStrictEqual(secondChanges, [true]);
+  });
+
+  test("a leader whose lease was taken over steps down", async () => {
+    const changes: boolean[] = [];
+    const election = createElection(changes);
+    await election.start();
+
+    const now = Date.now();
+    await fs.writeFile(
+      path.join(testRoot, LEADER_LOCK_FILE),
+      JSON.stringify({
+        hostname: "other-host",
+        pid: 1,
+        instanceId: "other-instance",
+        acquiredAt: now,
+        heartbeatAt: now,
+        leaseExpiresAt: now + 30000,
+      }),
+      "utf-8",
+    );
+    await (election as any).check();
+
+    assert.strictEqual(election.isLeader(), false);
+    assert.deepStrictEqual(changes, [true, false]);
+  });
+
+  test("stopping the leader releases the leader lock", async () => {
+    const election = createElection([]);
+    await election.start();
+    await election.stop();
+
+    assert.deepStrictEqual(await fs.readdir(testRoot), []);
+  });
+});
@@ -0,0 +1,109 @@
+import * as fsSync from "fs";
+import { CoftConfig } from "./config";
+import { FileLock } from "../storage/lock";
+import { Logger } from "../utils/logger";
+
+// Held in the root by the window that runs the processing loops
+export const LEADER_LOCK_FILE = "leader.lock";
+
+export class LeaderElection {
+  private config: CoftConfig;
+  private logger: Logger;
+  private onChange: (leader: boolean) => void;
+  private lock: FileLock;
+  private leader: boolean = false;
+  private stopped: boolean = false;
+  private checking: Promise<void> | null = null;
+  private watcher: fsSync.FSWatcher | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  // Also takes over from a leader whose window died without releasing
+  private checkIntervalMs: number = 10000;
+
+  constructor(
+    config: CoftConfig,
+    logger: Logger,
+    onChange: (leader: boolean) => void,
+  ) {
+    this.config = config;
+    this.logger = logger;
+    this.onChange = onChange;
+    this.lock = new FileLock(config.root, logger, 30000, LEADER_LOCK_FILE);
+  }
+
+  async start(): Promise<void> {
+    await this.check();
+    try {
+      // A released leader lock is taken over right away
+      this.watcher = fsSync.watch(this.config.root, (_event, file) => {
+        if (!file || file.toString() === LEADER_LOCK_FILE) {
+          this.check();
+        }
+      });
+      this.watcher.on("error", () => this.closeWatcher());
+    } catch (error) {
+      this.logger.debug(`Unable to watch leader lock: ${error}`);
+    }
+    this.timer = setInterval(() => this.check(), this.checkIntervalMs);
+  }
+
+  async stop(): Promise<void> {
+    this.stopped = true;
+    this.closeWatcher();
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    // A check in flight may still win the lock, which is then released too
+    await this.checking;
+    if (this.leader) {
+      this.leader = false;
+      await this.lock.release();
+      this.logger.info("Leadership released");
+    }
+  }
+
+  isLeader(): boolean {
+    return this.leader;
+  }
+
+  // Checks never overlap; the watcher fires on every lease renewal
+  private check(): Promise<void> {
+    if (!this.checking) {
+      this.checking = this.runCheck().finally(() => {
+        this.checking = null;
+      });
+    }
+    return this.checking;
+  }
+
+  // The leader confirms it still holds its lease, the others try to take it
+  private async runCheck(): Promise<void> {
+    try {
+      const leader = this.leader
+        ? await this.lock.isHeld()
+        : await this.lock.tryAcquire();
+      if (leader === this.leader) {
+        return;
+      }
+      this.leader = leader;
+      if (this.stopped) {
+        return;
+      }
+      this.logger.info(
+        leader
+          ? "This window is now the leader and runs the processors"
+          : "Leadership was taken over by another window",
+      );
+      this.onChange(leader);
+    } catch (error) {
+      this.logger.error(`Error checking leadership: ${error}`);
+    }
+  }
+
+  private closeWatcher(): void {
+    if (this.watcher) {
+      this.watcher.close();
+      this.watcher = null;
+    }
+  }
+}
@@ -0,0 +1,156 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+import * as fs from "fs/promises";
+import * as path from "path";
+import * as os from "os";
+import { ManualTimer } from "./manualTimer";
+import { StorageManager } from "../storage/storage";
+import { CoftConfig } from "./config";
+import { Logger } from "../utils/logger";
+
+function createTestConfig(testRoot: string): CoftConfig {
+  return {
+    root: testRoot,
+    queue: path.join(testRoot, "queue"),
+    queueBatch: path.join(testRoot, "queue_batch"),
+    queueBackup: path.join(testRoot, "queue_backup"),
+    operationQueue: path.join(testRoot, "operation_queue"),
+    operationQueueBackup: path.join(testRoot, "operation_queue_backup"),
+    data: path.join(testRoot, "data"),
+    backup: path.join(testRoot, "backup"),
+    intervalSeconds: 60,
+    viewGroupByMinutes: 15,
+    branchTaskUrl: "",
+    exportDir: "",
+    exportAgeDays: 90,
+    startOfWeek: "monday",
+    editThrottleSeconds: 30,
+    idleThresholdMinutes: 5,
+    outsideWorkspace: "repository",
+  };
+}
+
+suite("ManualTimer Test Suite", () => {
+  let testRoot: string;
+  let testConfig: CoftConfig;
+  let storage: StorageManager;
+  let timer: ManualTimer;
+
+  setup(async () => {
+    testRoot = path.join(os.tmpdir(), `coft-manual-timer-${Date.now()}`);
+    testConfig = createTestConfig(testRoot);
+    const outputChannel = vscode.window.createOutputChannel("ManualTimer Test");
+    const logger = new Logger(outputChannel, false);
+    storage = new StorageManager(testConfig, logger);
+    await storage.initialize();
+    timer = new ManualTimer(testConfig, storage, logger);
+  });
+
+  teardown(async () => {
+    timer.dispose();
+    try {
+      await fs.rm(testRoot, { recursive: true, force: true });
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  async function readEntries(): Promise<any[]> {
+    const files = (await fs.readdir(testConfig.queue)).sort();
+    const entries = [];
+    for (const file of files) {
+      const content = await fs.readFile(
+        path.join(testConfig.queue, file),
+        "utf-8",
+      );
+      for (const line of content.split("\n").filter((line) => line)) {
+        entries.push(JSON.parse(line));
+      }
+    }
+    return entries.sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  const nineOClock = new Date(2024, 0, 15, 9, 0, 0).getTime();
+  const minute = 60 * 1000;
+
+  test("start writes a manual entry immediately", async () => {
+    await timer.start("Alpha", "Planning", nineOClock);
+    const entries = await readEntries();
+    assert.strictEqual(entries.length, 1);
+    assert.strictEqual(entries[0].kind, "manual");
+    assert.strictEqual(entries[0].project, "Alpha");
+    assert.strictEqual(entries[0].comment, "Planning");
+    assert.strictEqual(entries[0].timestamp, nineOClock);
+    assert.ok(timer.isRunning());
+  });
+
+  test("writes one entry per slot while running", async () => {
+    await timer.start("Alpha", "Planning", nineOClock);
+    await (timer as any).writeSlot(nineOClock + 5 * minute);
+    await (timer as any).writeSlot(nineOClock + 16 * minute);
+    await (timer as any).writeSlot(nineOClock + 20 * minute);
+    await (timer as any).writeSlot(nineOClock + 31 * minute);
+    const entries = await readEntries();
+    assert.deepStrictEqual(
+      entries.map((e) => e.timestamp),
+      [nineOClock, nineOClock + 16 * minute, nineOClock + 31 * minute],
+    );
+  });
+
+  test("stop covers the final slot and returns the timer", async () => {
+    await timer.start("Alpha", "Planning", nineOClock);
+    const stopped = await timer.stop(nineOClock + 17 * minute);
+    assert.strictEqual(stopped?.project, "Alpha");
+    assert.strictEqual(timer.isRunning(), false);
+    const entries = await readEntries();
+    assert.strictEqual(entries.length, 2);
+
+    await (timer as any).writeSlot(nineOClock + 40 * minute);
+    assert.strictEqual((await readEntries()).length, 2);
+  });
+
+  test("stop without a running timer returns null", async () => {
+    assert.strictEqual(await timer.stop(nineOClock), null);
+    assert.strictEqual((await readEntries()).length, 0);
+  });
+
+  test("start while running switches to the new project", async () => {
+    await timer.start("Alpha", "Planning", nineOClock);
+    await timer.start("Beta", "Review", nineOClock + 20 * minute);
+    const entries = await readEntries();
+    assert.deepStrictEqual(
+      entries.map((e) => e.project),
+      ["Alpha", "Alpha", "Beta"],
+    );
+    assert.strictEqual(timer.getState()?.project, "Beta");
+  });
+
+  test("restore keeps the original start time", async () => {
+    await timer.start("Alpha", "Planning", nineOClock);
+    timer.dispose();
+
+    // A new window, or the same one after a restart
+    const restored = new ManualTimer(
+      testConfig,
+      storage,
+      new Logger(vscode.window.createOutputChannel("ManualTimer Test"), false),
+    );
+    await restored.restore(nineOClock + 45 * minute);
+    restored.dispose();
+    assert.strictEqual(restored.getState()?.startedAt, nineOClock);
+    const entries = await readEntries();
+    assert.deepStrictEqual(
+      entries.map((e) => e.timestamp),
+      [nineOClock, nineOClock + 45 * minute],
+    );
+  });
+
+  test("stops following a timer stopped in another window", async () => {
+    await timer.start("Alpha", "Planning", nineOClock);
+    await storage.manualTimerRepository.clearState();
+
+    await (timer as any).tick(nineOClock + 20 * minute);
+    assert.strictEqual(timer.isRunning(), false);
+    assert.strictEqual((await readEntries()).length, 1);
+  });
+});
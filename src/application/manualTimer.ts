@@ -0,0 +1,119 @@
+import { CoftConfig } from "./config";
+import { StorageManager } from "../storage/storage";
+import { ManualTimerState } from "../storage/manualTimerRepository";
+import { Logger } from "../utils/logger";
+
+export class ManualTimer {
+  private config: CoftConfig;
+  private storage: StorageManager;
+  private logger: Logger;
+  private timer: NodeJS.Timeout | null = null;
+  private checkIntervalMs: number = 30000;
+  private state: ManualTimerState | null = null;
+  private lastSlot: string | null = null;
+
+  constructor(config: CoftConfig, storage: StorageManager, logger: Logger) {
+    this.config = config;
+    this.storage = storage;
+    this.logger = logger;
+  }
+
+  isRunning(): boolean {
+    return this.state !== null;
+  }
+
+  getState(): ManualTimerState | null {
+    return this.state;
+  }
+
+  // Every window follows the persisted timer, so it keeps running when the
+  // window that started it closes and continues after a restart
+  async restore(now: number = Date.now()): Promise<void> {
+    this.dispose();
+    await this.tick(now);
+    this.timer = setInterval(() => this.tick(), this.checkIntervalMs);
+  }
+
+  async start(
+    project: string,
+    comment: string,
+    now: number = Date.now(),
+  ): Promise<void> {
+    await this.stop(now);
+    this.logger.info(`Starting manual timer for ${project}`);
+    this.state = { project, comment, startedAt: now };
+    this.lastSlot = null;
+    await this.storage.manualTimerRepository.saveState(this.state);
+    await this.writeSlot(now);
+  }
+
+  async stop(now: number = Date.now()): Promise<ManualTimerState | null> {
+    // Another window may have stopped or switched the timer since the last tick
+    await this.reload();
+    const stopped = this.state;
+    if (stopped) {
+      // Cover the slot the timer was stopped in, if no tick reached it yet
+      await this.writeSlot(now);
+      await this.storage.manualTimerRepository.clearState();
+      this.logger.info(`Manual timer stopped for ${stopped.project}`);
+    }
+    this.state = null;
+    this.lastSlot = null;
+    return stopped;
+  }
+
+  // Stops ticking without closing the running timer, e.g. on shutdown
+  dispose(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async tick(now: number = Date.now()): Promise<void> {
+    await this.reload();
+    await this.writeSlot(now);
+  }
+
+  private async reload(): Promise<void> {
+    const state = await this.storage.manualTimerRepository.readState();
+    if (
+      state?.project !== this.state?.project ||
+      state?.comment !== this.state?.comment ||
+      state?.startedAt !== this.state?.startedAt
+    ) {
+      this.state = state;
+      this.lastSlot = null;
+    }
+  }
+
+  private async writeSlot(now: number = Date.now()): Promise<void> {
+    if (!this.state) {
+      return;
+    }
+    // One entry per slot is enough to claim it; windows following the same
+    // timer write the same row
+    const slot = this.getSlot(now);
+    if (slot === this.lastSlot) {
+      return;
+    }
+    this.lastSlot = slot;
+    try {
+      await this.storage.writeManualEntry(
+        this.state.project,
+        this.state.comment,
+        now,
+      );
+    } catch (error) {
+      this.logger.error(`Error writing manual timer entry: ${error}`);
+    }
+  }
+
+  private getSlot(now: number): string {
+    const date = new Date(now);
+    const slotMinutes =
+      Math.floor(date.getMinutes() / this.config.viewGroupByMinutes) *
+      this.config.viewGroupByMinutes;
+    return `${date.toDateString()} ${date.getHours()}:${slotMinutes}`;
+  }
+}
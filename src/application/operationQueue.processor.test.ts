@@ -7,7 +7,7 @@ import { OperationQueueWriter } from "./operationQueueWriter";
 import { OperationQueueProcessor } from "./operationQueueProcessor";
 import { WriteTimeReportRequest } from "../types/operation";
 import { GitManager } from "../storage/git";
-import { StorageManager } from "../storage/storage";
+import { LOOSE_FILES_DIRECTORY, StorageManager } from "../storage/storage";
 import { CoftConfig } from "./config";
 import { Logger } from "../utils/logger";
 
@@ -27,6 +27,9 @@ function createTestConfig(testRoot: string): CoftConfig {
     exportDir: "",
     exportAgeDays: 90,
     startOfWeek: "auto",
+    editThrottleSeconds: 30,
+    idleThresholdMinutes: 5,
+    outsideWorkspace: "repository",
   };
 }
 
@@ -114,6 +117,141 @@ suite("OperationQueueProcessor Test Suite", () => {
     assert.strictEqual(remaining.length, 0);
   });
 
+  test("OperationQueueProcessor should process a request as soon as it is queued", async () => {
+    await fs.mkdir(testConfig.data, { recursive: true });
+    await fs.mkdir(testConfig.backup, { recursive: true });
+    const git = new GitManager(testConfig, logger, "0.0.1");
+    await git.initialize();
+    const storage = new StorageManager(testConfig, logger);
+    await storage.initialize();
+
+    const processor = new OperationQueueProcessor(
+      testConfig,
+      git,
+      storage,
+      logger,
+    );
+    processor.start();
+    try {
+      await OperationQueueWriter.write(
+        storage.operationRepository,
+        {
+          type: "timereport",
+          file: "reports/2026/02/15.json",
+          body: { date: "2026-02-15", entries: [] },
+        },
+        logger,
+      );
+
+      // Well before the 10s polling interval
+      const targetPath = path.join(testConfig.data, "reports/2026/02/15.json");
+      let written = false;
+      for (let i = 0; i < 50 && !written; i++) {
+        await new Promise((resolve) => setTimeout(resolve, 100));
+        written = await fs
+          .access(targetPath)
+          .then(() => true)
+          .catch(() => false);
+      }
+      assert.ok(written, "request should be processed by the watcher");
+    } finally {
+      processor.stop();
+    }
+  });
+
+  test("OperationQueueProcessor should run again for requests queued mid-cycle", async () => {
+    const storage = new StorageManager(testConfig, logger);
+    await storage.initialize();
+    const processor = new OperationQueueProcessor(
+      testConfig,
+      new GitManager(testConfig, logger, "0.0.1"),
+      storage,
+      logger,
+    );
+    (processor as any).timer = setInterval(() => {}, 60000);
+    let scheduled = 0;
+    (processor as any).scheduleProcessing = () => scheduled++;
+    try {
+      (processor as any).processing = true;
+      await processor.processQueue();
+      assert.strictEqual(scheduled, 0);
+      (processor as any).finishProcessing();
+      assert.strictEqual(scheduled, 1);
+      assert.strictEqual((processor as any).processing, false);
+    } finally {
+      processor.stop();
+    }
+  });
+
+  test("OperationQueueProcessor flush waits for the cycle in flight and runs a last one", async () => {
+    await fs.mkdir(testConfig.data, { recursive: true });
+    await fs.mkdir(testConfig.backup, { recursive: true });
+    const git = new GitManager(testConfig, logger, "0.0.1");
+    await git.initialize();
+    const storage = new StorageManager(testConfig, logger);
+    await storage.initialize();
+    const processor = new OperationQueueProcessor(
+      testConfig,
+      git,
+      storage,
+      logger,
+    );
+    (processor as any).timer = setInterval(() => {}, 60000);
+
+    await OperationQueueWriter.write(
+      storage.operationRepository,
+      {
+        type: "timereport",
+        file: "reports/2026/02/15.json",
+        body: { date: "2026-02-15", entries: [] },
+      },
+      logger,
+    );
+    (processor as any).processing = true;
+    setTimeout(() => {
+      (processor as any).processing = false;
+    }, 100);
+
+    await processor.flush();
+
+    assert.strictEqual((processor as any).timer, null);
+    await fs.access(path.join(testConfig.data, "reports/2026/02/15.json"));
+    assert.deepStrictEqual(await fs.readdir(testConfig.operationQueue), []);
+  });
+
+  test("OperationQueueProcessor should abandon the cycle when the lock lease is lost", async () => {
+    await fs.mkdir(testConfig.data, { recursive: true });
+    const git = new GitManager(testConfig, logger, "0.0.1");
+    await git.initialize();
+    const storage = new StorageManager(testConfig, logger);
+    await storage.initialize();
+    const processor = new OperationQueueProcessor(
+      testConfig,
+      git,
+      storage,
+      logger,
+    );
+    (processor as any).lock.isLeaseLost = () => true;
+
+    await OperationQueueWriter.write(
+      storage.operationRepository,
+      {
+        type: "timereport",
+        file: "reports/2026/02/15.json",
+        body: { date: "2026-02-15", entries: [] },
+      },
+      logger,
+    );
+    await processor.processQueue();
+
+    await assert.rejects(
+      fs.access(path.join(testConfig.data, "reports/2026/02/15.json")),
+    );
+    const queued = await fs.readdir(testConfig.operationQueue);
+    assert.strictEqual(queued.filter((f) => f.endsWith(".json")).length, 1);
+    assert.ok(!queued.some((f) => f.endsWith(".retry")));
+  });
+
   test("OperationQueueProcessor should process multiple requests in order", async () => {
     await fs.mkdir(testConfig.data, { recursive: true });
     await fs.mkdir(testConfig.backup, { recursive: true });
@@ -211,7 +349,205 @@ suite("OperationQueueProcessor Test Suite", () => {
     assert.ok(dataFiles.includes(".git"));
   });
 
-  test("OperationQueueProcessor should move request to backup after max failures", async () => {
+  async function countCommits(): Promise<number> {
+    const { exec } = await import("child_process");
+    const { promisify } = await import("util");
+    const execAsync = promisify(exec);
+    try {
+      const { stdout } = await execAsync("git rev-list --count HEAD", {
+        cwd: testConfig.data,
+      });
+      return parseInt(stdout.trim(), 10);
+    } catch {
+      // No commits yet
+      return 0;
+    }
+  }
+
+  test("OperationQueueProcessor should collapse superseded timereport writes", async () => {
+    await fs.mkdir(testConfig.backup, { recursive: true });
+    const git = new GitManager(testConfig, logger, "0.0.1");
+    await git.initialize();
+    const storage = new StorageManager(testConfig, logger);
+    await storage.initialize();
+
+    for (const startOfDay of ["08:00", "08:15", "08:30"]) {
+      await OperationQueueWriter.write(
+        storage.operationRepository,
+        {
+          type: "timereport",
+          file: "reports/2026/02/15.json",
+          body: { date: "2026-02-15", entries: [], startOfDay },
+        },
+        logger,
+      );
+    }
+    const commitsBefore = await countCommits();
+
+    const processor = new OperationQueueProcessor(
+      testConfig,
+      git,
+      storage,
+      logger,
+    );
+    await processor.processQueue();
+
+    const content = await fs.readFile(
+      path.join(testConfig.data, "reports", "2026", "02", "15.json"),
+      "utf-8",
+    );
+    assert.strictEqual(JSON.parse(content).startOfDay, "08:30");
+    assert.deepStrictEqual(await fs.readdir(testConfig.operationQueue), []);
+    assert.strictEqual(await countCommits(), commitsBefore + 1);
+  });
+
+  test("OperationQueueProcessor should record results for awaiting callers", async () => {
+    await fs.mkdir(testConfig.backup, { recursive: true });
+    const git = new GitManager(testConfig, logger, "0.0.1");
+    await git.initialize();
+    const storage = new StorageManager(testConfig, logger);
+    await storage.initialize();
+
+    const ids: string[] = [];
+    for (const startOfDay of ["08:00", "08:15"]) {
+      ids.push(
+        await OperationQueueWriter.write(
+          storage.operationRepository,
+          {
+            type: "timereport",
+            file: "reports/2026/02/15.json",
+            body: { date: "2026-02-15", entries: [], startOfDay },
+          },
+          logger,
+        ),
+      );
+    }
+    await fs.writeFile(
+      path.join(testConfig.operationQueue, "9999999999999_bad.json"),
+      JSON.stringify({ type: "timereport" }),
+      "utf-8",
+    );
+
+    const processor = new OperationQueueProcessor(
+      testConfig,
+      git,
+      storage,
+      logger,
+    );
+    await processor.processQueue();
+
+    // The superseded write went out with the newer one's commit
+    for (const id of ids) {
+      const result = await storage.operationRepository.waitForResult(id, 0);
+      assert.strictEqual(result?.status, "committed");
+    }
+    const failed = await storage.operationRepository.waitForResult(
+      "9999999999999_bad",
+      0,
+    );
+    assert.strictEqual(failed?.status, "failed");
+    assert.strictEqual(
+      failed?.error,
+      "Invalid request: timereport has no file",
+    );
+  });
+
+  test("OperationQueueProcessor should commit a cycle's writes once", async () => {
+    await fs.mkdir(testConfig.backup, { recursive: true });
+    const git = new GitManager(testConfig, logger, "0.0.1");
+    await git.initialize();
+    const storage = new StorageManager(testConfig, logger);
+    await storage.initialize();
+
+    const changes = [
+      { action: "add", branch: "main", directory: "/a", project: "X" },
+      { action: "update", branch: "main", directory: "/a", project: "Y" },
+      { action: "add", branch: "main", directory: "/b", project: "Z" },
+    ] as const;
+    for (const change of changes) {
+      await OperationQueueWriter.write(
+        storage.operationRepository,
+        { type: "projectChange", ...change },
+        logger,
+      );
+    }
+    await OperationQueueWriter.write(
+      storage.operationRepository,
+      {
+        type: "timereport",
+        file: "reports/2026/02/15.json",
+        body: { date: "2026-02-15", entries: [] },
+      },
+      logger,
+    );
+    const commitsBefore = await countCommits();
+
+    const processor = new OperationQueueProcessor(
+      testConfig,
+      git,
+      storage,
+      logger,
+    );
+    await processor.processQueue();
+
+    const projects = await storage.projectRepository.readProjects();
+    assert.strictEqual(projects["main"]["/a"], "Y");
+    assert.strictEqual(projects["main"]["/b"], "Z");
+    assert.deepStrictEqual(await fs.readdir(testConfig.operationQueue), []);
+    assert.strictEqual(await countCommits(), commitsBefore + 1);
+  });
+
+  test("OperationQueueProcessor should keep a delete between project updates", () => {
+    const processor = new OperationQueueProcessor(
+      testConfig,
+      new GitManager(testConfig, logger, "0.0.1"),
+      new StorageManager(testConfig, logger),
+      logger,
+    );
+    const queued = (processor as any).coalesceOperations([
+      {
+        file: "1_a.json",
+        request: {
+          type: "projectChange",
+          action: "add",
+          branch: "main",
+          directory: "/a",
+          project: "X",
+        },
+      },
+      {
+        file: "2_b.json",
+        request: {
+          type: "projectChange",
+          action: "delete",
+          branch: "main",
+          directory: "/a",
+        },
+      },
+      {
+        file: "3_c.json",
+        request: {
+          type: "projectChange",
+          action: "add",
+          branch: "main",
+          directory: "/a",
+          project: "Y",
+        },
+      },
+      { file: "4_d.json", request: { type: "processBatch" } },
+    ]);
+
+    assert.deepStrictEqual(
+      queued.map((q: any) => [q.file, q.superseded]),
+      [
+        ["2_b.json", []],
+        ["3_c.json", ["1_a.json"]],
+        ["4_d.json", []],
+      ],
+    );
+  });
+
+  test("OperationQueueProcessor should move an invalid request to backup at once", async () => {
     await fs.mkdir(testConfig.data, { recursive: true });
     await fs.mkdir(testConfig.backup, { recursive: true });
     await fs.mkdir(testConfig.operationQueue, { recursive: true });
@@ -235,21 +571,107 @@ suite("OperationQueueProcessor Test Suite", () => {
       logger,
     );
 
-    // Process 5 times to hit max failures
-    for (let i = 0; i < 5; i++) {
-      await processor.processQueue();
-    }
+    // Retrying cannot fix the file, so one cycle backs it up
+    await processor.processQueue();
 
-    // Request should be moved to backup
-    const backupFiles = await fs.readdir(testConfig.operationQueueBackup);
-    assert.strictEqual(backupFiles.length, 1);
-    assert.strictEqual(backupFiles[0], requestFile);
+    // Request should be moved to backup, with its failure recorded
+    const backupFiles = (
+      await fs.readdir(testConfig.operationQueueBackup)
+    ).sort();
+    assert.deepStrictEqual(backupFiles, [
+      requestFile,
+      `${requestFile}.failure.json`,
+    ]);
+    const [failed] = await storage.operationRepository.readFailedOperations();
+    assert.strictEqual(failed.file, requestFile);
+    assert.strictEqual(failed.request.type, "invalid");
+    assert.strictEqual(failed.failure?.attempts, 1);
+    assert.ok(failed.failure?.error.includes("unreadable JSON"));
 
     // Queue should be empty
     const queueFiles = await fs.readdir(testConfig.operationQueue);
     assert.strictEqual(queueFiles.length, 0);
   });
 
+  test("OperationQueueProcessor should back off and keep attempts across restarts", async () => {
+    await fs.mkdir(testConfig.data, { recursive: true });
+    await fs.mkdir(testConfig.backup, { recursive: true });
+    const git = new GitManager(testConfig, logger, "0.0.1");
+    await git.initialize();
+    const storage = new StorageManager(testConfig, logger);
+    await storage.initialize();
+    git.commit = async () => {
+      throw new Error("disk full");
+    };
+
+    await OperationQueueWriter.write(
+      storage.operationRepository,
+      {
+        type: "timereport",
+        file: "reports/2026/02/15.json",
+        body: { date: "2026-02-15", entries: [] },
+      },
+      logger,
+    );
+    const [file] = await fs.readdir(testConfig.operationQueue);
+
+    const processor = new OperationQueueProcessor(
+      testConfig,
+      git,
+      storage,
+      logger,
+    );
+    await processor.processQueue();
+    const first = await storage.operationRepository.readRetryState(file);
+    assert.strictEqual(first?.attempts.length, 1);
+    assert.ok(first!.nextAttemptAt > Date.now());
+    const retrying = await storage.operationRepository.waitForResult(
+      storage.operationRepository.getOperationId(file),
+      0,
+    );
+    assert.strictEqual(retrying?.status, "retrying");
+    assert.strictEqual(retrying?.error, "Error: disk full");
+
+    // Still waiting, also for a processor started afterwards
+    await processor.processQueue();
+    const restarted = new OperationQueueProcessor(
+      testConfig,
+      git,
+      storage,
+      logger,
+    );
+    await restarted.processQueue();
+    assert.deepStrictEqual(
+      await storage.operationRepository.readRetryState(file),
+      first,
+    );
+
+    // The last allowed attempt moves it aside with the whole history
+    await storage.operationRepository.writeRetryState(file, {
+      attempts: [1, 2, 3, 4].map((at) => ({ at, error: "Error: disk full" })),
+      nextAttemptAt: 0,
+    });
+    await restarted.processQueue();
+    const [failed] = await storage.operationRepository.readFailedOperations();
+    assert.strictEqual(failed.file, file);
+    assert.strictEqual(failed.failure?.attempts, 5);
+    assert.strictEqual(failed.failure?.history?.length, 5);
+    assert.deepStrictEqual(await fs.readdir(testConfig.operationQueue), []);
+  });
+
+  test("OperationQueueProcessor retry delay doubles up to the maximum", () => {
+    const processor = new OperationQueueProcessor(
+      testConfig,
+      new GitManager(testConfig, logger, "0.0.1"),
+      new StorageManager(testConfig, logger),
+      logger,
+    );
+    const delays = [1, 2, 3, 10].map((attempts) =>
+      (processor as any).getRetryDelay(attempts),
+    );
+    assert.deepStrictEqual(delays, [10000, 20000, 40000, 5 * 60 * 1000]);
+  });
+
   test("OperationQueueProcessor request filename uses timestamp pattern", async () => {
     const storage = new StorageManager(testConfig, logger);
     await storage.initialize();
@@ -371,6 +793,301 @@ suite("OperationQueueProcessor Test Suite", () => {
     assert.strictEqual(remaining.length, 0);
   });
 
+  test("OperationQueueProcessor should rewrite the same batch when reprocessing queue files", async () => {
+    await fs.mkdir(testConfig.data, { recursive: true });
+    await fs.mkdir(testConfig.backup, { recursive: true });
+    const git = new GitManager(testConfig, logger, "0.0.1");
+    await git.initialize();
+    const storage = new StorageManager(testConfig, logger);
+    await storage.initialize();
+
+    await storage.writeQueueEntry("/workspace/project1", "src/app.ts", "main");
+    await storage.rotateQueueJournal();
+    const [segment] = await fs.readdir(testConfig.queue);
+    const content = await fs.readFile(
+      path.join(testConfig.queue, segment),
+      "utf-8",
+    );
+
+    const processor = new OperationQueueProcessor(
+      testConfig,
+      git,
+      storage,
+      logger,
+    );
+    await OperationQueueWriter.write(
+      storage.operationRepository,
+      { type: "processBatch" },
+      logger,
+    );
+    await processor.processQueue();
+    const batchDir = path.join(testConfig.data, "batches");
+    const [batch] = await fs.readdir(batchDir);
+
+    // A crash after the commit left the segment behind without a marker
+    await fs.writeFile(path.join(testConfig.queueBatch, segment), content);
+    await OperationQueueWriter.write(
+      storage.operationRepository,
+      { type: "processBatch" },
+      logger,
+    );
+    await processor.processQueue();
+
+    assert.deepStrictEqual(await fs.readdir(batchDir), [batch]);
+    assert.deepStrictEqual(await fs.readdir(testConfig.queueBatch), []);
+  });
+
+  test("OperationQueueProcessor should notify when a batch is committed", async () => {
+    await fs.mkdir(testConfig.data, { recursive: true });
+    await fs.mkdir(testConfig.backup, { recursive: true });
+    const git = new GitManager(testConfig, logger, "0.0.1");
+    await git.initialize();
+    const storage = new StorageManager(testConfig, logger);
+    await storage.initialize();
+
+    await storage.writeQueueEntry("/workspace/project1", "src/app.ts", "main");
+    await OperationQueueWriter.write(
+      storage.operationRepository,
+      { type: "processBatch" },
+      logger,
+    );
+
+    let notifications = 0;
+    const processor = new OperationQueueProcessor(
+      testConfig,
+      git,
+      storage,
+      logger,
+      () => notifications++,
+    );
+    await processor.processQueue();
+
+    assert.strictEqual(notifications, 1);
+  });
+
+  test("OperationQueueProcessor should keep activity kind in batch entries", async () => {
+    await fs.mkdir(testConfig.data, { recursive: true });
+    await fs.mkdir(testConfig.backup, { recursive: true });
+    const git = new GitManager(testConfig, logger, "0.0.1");
+    await git.initialize();
+    const storage = new StorageManager(testConfig, logger);
+    await storage.initialize();
+
+    await storage.writeQueueEntry(
+      "/workspace/project1",
+      "src/app.ts",
+      "main",
+      "edit",
+    );
+    await storage.writeQueueEntry("/workspace/project1", "src/util.ts", "main");
+
+    await OperationQueueWriter.write(
+      storage.operationRepository,
+      { type: "processBatch" },
+      logger,
+    );
+
+    const processor = new OperationQueueProcessor(
+      testConfig,
+      git,
+      storage,
+      logger,
+    );
+    await processor.processQueue();
+
+    const batchDir = path.join(testConfig.data, "batches");
+    const batches = await fs.readdir(batchDir);
+    const parsed = JSON.parse(
+      await fs.readFile(path.join(batchDir, batches[0]), "utf-8"),
+    );
+    const entries = parsed["main"]["/workspace/project1"];
+    const app = entries.find((e: any) => e.File === "src/app.ts");
+    const util = entries.find((e: any) => e.File === "src/util.ts");
+    assert.strictEqual(app.Kind, "edit");
+    assert.strictEqual(util.Kind, "save");
+  });
+
+  test("OperationQueueProcessor should preserve the language and line diff of queue entries", async () => {
+    await fs.mkdir(testConfig.data, { recursive: true });
+    await fs.mkdir(testConfig.backup, { recursive: true });
+    const git = new GitManager(testConfig, logger, "0.0.1");
+    await git.initialize();
+    const storage = new StorageManager(testConfig, logger);
+    await storage.initialize();
+
+    await storage.writeQueueEntry("/project", "main.tf", "main", "save", {
+      languageId: "terraform",
+      lineDiff: { added: 5, removed: 1 },
+    });
+
+    await OperationQueueWriter.write(
+      storage.operationRepository,
+      { type: "processBatch" },
+      logger,
+    );
+
+    const processor = new OperationQueueProcessor(
+      testConfig,
+      git,
+      storage,
+      logger,
+    );
+    await processor.processQueue();
+
+    const batchDir = path.join(testConfig.data, "batches");
+    const batches = await fs.readdir(batchDir);
+    const parsed = JSON.parse(
+      await fs.readFile(path.join(batchDir, batches[0]), "utf-8"),
+    );
+    assert.strictEqual(parsed["main"]["/project"][0].Language, "terraform");
+    assert.strictEqual(parsed["main"]["/project"][0].Added, 5);
+    assert.strictEqual(parsed["main"]["/project"][0].Removed, 1);
+  });
+
+  test("OperationQueueProcessor should group activity events under the events key", async () => {
+    await fs.mkdir(testConfig.data, { recursive: true });
+    await fs.mkdir(testConfig.backup, { recursive: true });
+    const git = new GitManager(testConfig, logger, "0.0.1");
+    await git.initialize();
+    const storage = new StorageManager(testConfig, logger);
+    await storage.initialize();
+
+    await storage.writeQueueEntry("/workspace/project1", "src/app.ts", "main");
+    await storage.writeActivityEvent("blur", Date.now());
+
+    await OperationQueueWriter.write(
+      storage.operationRepository,
+      { type: "processBatch" },
+      logger,
+    );
+
+    const processor = new OperationQueueProcessor(
+      testConfig,
+      git,
+      storage,
+      logger,
+    );
+    await processor.processQueue();
+
+    const batchDir = path.join(testConfig.data, "batches");
+    const batches = await fs.readdir(batchDir);
+    const parsed = JSON.parse(
+      await fs.readFile(path.join(batchDir, batches[0]), "utf-8"),
+    );
+    assert.strictEqual(parsed["main"]["/workspace/project1"].length, 1);
+    assert.strictEqual(parsed["_events"][""][0].Kind, "blur");
+    assert.strictEqual(parsed["no-branch"], undefined);
+  });
+
+  test("OperationQueueProcessor should group manual timer entries under the manual key", async () => {
+    await fs.mkdir(testConfig.data, { recursive: true });
+    await fs.mkdir(testConfig.backup, { recursive: true });
+    const git = new GitManager(testConfig, logger, "0.0.1");
+    await git.initialize();
+    const storage = new StorageManager(testConfig, logger);
+    await storage.initialize();
+
+    await storage.writeManualEntry("Alpha", "Planning", Date.now());
+
+    await OperationQueueWriter.write(
+      storage.operationRepository,
+      { type: "processBatch" },
+      logger,
+    );
+
+    const processor = new OperationQueueProcessor(
+      testConfig,
+      git,
+      storage,
+      logger,
+    );
+    await processor.processQueue();
+
+    const batchDir = path.join(testConfig.data, "batches");
+    const batches = await fs.readdir(batchDir);
+    const parsed = JSON.parse(
+      await fs.readFile(path.join(batchDir, batches[0]), "utf-8"),
+    );
+    const manual = parsed["_manual"][""][0];
+    assert.strictEqual(manual.Kind, "manual");
+    assert.strictEqual(manual.Project, "Alpha");
+    assert.strictEqual(manual.Comment, "Planning");
+    assert.strictEqual(parsed["no-branch"], undefined);
+  });
+
+  test("OperationQueueProcessor should key remote directories by authority", async () => {
+    await fs.mkdir(testConfig.data, { recursive: true });
+    await fs.mkdir(testConfig.backup, { recursive: true });
+    const git = new GitManager(testConfig, logger, "0.0.1");
+    await git.initialize();
+    const storage = new StorageManager(testConfig, logger);
+    await storage.initialize();
+
+    await storage.writeQueueEntry("/project", "a.ts", "main", "save", {
+      remote: { name: "ssh-remote", authority: "ssh-remote+build" },
+    });
+    await storage.writeQueueEntry("/project", "b.ts", "main");
+
+    await OperationQueueWriter.write(
+      storage.operationRepository,
+      { type: "processBatch" },
+      logger,
+    );
+
+    const processor = new OperationQueueProcessor(
+      testConfig,
+      git,
+      storage,
+      logger,
+    );
+    await processor.processQueue();
+
+    const batchDir = path.join(testConfig.data, "batches");
+    const batches = await fs.readdir(batchDir);
+    const parsed = JSON.parse(
+      await fs.readFile(path.join(batchDir, batches[0]), "utf-8"),
+    );
+    assert.strictEqual(
+      parsed["main"]["[ssh-remote+build]/project"][0].File,
+      "a.ts",
+    );
+    assert.strictEqual(parsed["main"]["/project"][0].File, "b.ts");
+  });
+
+  test("OperationQueueProcessor should group loose files under the pseudo-directory", async () => {
+    await fs.mkdir(testConfig.data, { recursive: true });
+    await fs.mkdir(testConfig.backup, { recursive: true });
+    const git = new GitManager(testConfig, logger, "0.0.1");
+    await git.initialize();
+    const storage = new StorageManager(testConfig, logger);
+    await storage.initialize();
+
+    await storage.writeQueueEntry(LOOSE_FILES_DIRECTORY, "/tmp/notes.md");
+
+    await OperationQueueWriter.write(
+      storage.operationRepository,
+      { type: "processBatch" },
+      logger,
+    );
+
+    const processor = new OperationQueueProcessor(
+      testConfig,
+      git,
+      storage,
+      logger,
+    );
+    await processor.processQueue();
+
+    const batchDir = path.join(testConfig.data, "batches");
+    const batches = await fs.readdir(batchDir);
+    const parsed = JSON.parse(
+      await fs.readFile(path.join(batchDir, batches[0]), "utf-8"),
+    );
+    const entries = parsed["no-branch"][LOOSE_FILES_DIRECTORY];
+    assert.strictEqual(entries.length, 1);
+    assert.strictEqual(entries[0].File, "/tmp/notes.md");
+  });
+
   test("OperationQueueProcessor should handle ProcessBatchRequest with empty queue", async () => {
     await fs.mkdir(testConfig.data, { recursive: true });
     await fs.mkdir(testConfig.backup, { recursive: true });
@@ -475,4 +1192,94 @@ suite("OperationQueueProcessor Test Suite", () => {
     const remaining = await fs.readdir(testConfig.operationQueue);
     assert.strictEqual(remaining.length, 0);
   });
+
+  test("OperationQueueProcessor should requeue files of an interrupted batch", async () => {
+    await fs.mkdir(testConfig.backup, { recursive: true });
+    const git = new GitManager(testConfig, logger, "0.0.1");
+    await git.initialize();
+    const storage = new StorageManager(testConfig, logger);
+    await storage.initialize();
+
+    // A window died after writing, but before committing, its batch file
+    await storage.writeQueueEntry("/workspace/project1", "src/app.ts", "main");
+    await storage.moveQueueToBatch();
+    await storage.writeBatchMarker("batch_1_crashed.json");
+    await storage.batchRepository.saveBatch({}, "batch_1_crashed.json");
+
+    await storage.writeQueueEntry("/workspace/project1", "src/util.ts", "main");
+    await OperationQueueWriter.write(
+      storage.operationRepository,
+      { type: "processBatch" },
+      logger,
+    );
+    const processor = new OperationQueueProcessor(
+      testConfig,
+      git,
+      storage,
+      logger,
+    );
+    await processor.processQueue();
+
+    const batchDir = path.join(testConfig.data, "batches");
+    const batches = await fs.readdir(batchDir);
+    assert.strictEqual(batches.length, 1);
+    assert.notStrictEqual(batches[0], "batch_1_crashed.json");
+    const parsed = JSON.parse(
+      await fs.readFile(path.join(batchDir, batches[0]), "utf-8"),
+    );
+    assert.strictEqual(parsed["main"]["/workspace/project1"].length, 2);
+    assert.strictEqual(await storage.readBatchMarker(), null);
+  });
+
+  test("OperationQueueProcessor should discard files of a committed batch", async () => {
+    await fs.mkdir(testConfig.backup, { recursive: true });
+    const git = new GitManager(testConfig, logger, "0.0.1");
+    await git.initialize();
+    const storage = new StorageManager(testConfig, logger);
+    await storage.initialize();
+
+    // A window died after committing its batch file
+    await storage.writeQueueEntry("/workspace/project1", "src/app.ts", "main");
+    await storage.moveQueueToBatch();
+    await storage.writeBatchMarker("batch_1_committed.json");
+    await storage.batchRepository.saveBatch(
+      { main: { "/workspace/project1": [] } },
+      "batch_1_committed.json",
+    );
+    await git.commit("processBatch: batches/batch_1_committed.json");
+
+    const processor = new OperationQueueProcessor(
+      testConfig,
+      git,
+      storage,
+      logger,
+    );
+    await (processor as any).recoverOnStartup();
+
+    assert.deepStrictEqual(await fs.readdir(testConfig.queueBatch), []);
+    assert.strictEqual(await storage.hasQueueFiles(), false);
+    assert.strictEqual(await storage.readBatchMarker(), null);
+  });
+
+  test("OperationQueueProcessor should requeue orphaned files on startup", async () => {
+    await fs.mkdir(testConfig.backup, { recursive: true });
+    const git = new GitManager(testConfig, logger, "0.0.1");
+    await git.initialize();
+    const storage = new StorageManager(testConfig, logger);
+    await storage.initialize();
+
+    await storage.writeQueueEntry("/workspace/project1", "src/app.ts", "main");
+    await storage.moveQueueToBatch();
+
+    const processor = new OperationQueueProcessor(
+      testConfig,
+      git,
+      storage,
+      logger,
+    );
+    await (processor as any).recoverOnStartup();
+
+    assert.deepStrictEqual(await fs.readdir(testConfig.queueBatch), []);
+    assert.strictEqual(await storage.hasQueueFiles(), true);
+  });
 });
@@ -28,6 +28,9 @@ function createTestConfig(testRoot: string): CoftConfig {
     exportDir: "",
     exportAgeDays: 90,
     startOfWeek: "auto",
+    editThrottleSeconds: 30,
+    idleThresholdMinutes: 5,
+    outsideWorkspace: "repository",
   };
 }
 
@@ -1,20 +1,45 @@
-import * as fs from "fs/promises";
-import * as path from "path";
+import * as fsSync from "fs";
 import * as vscode from "vscode";
 import { CoftConfig } from "./config";
 import { GitManager } from "../storage/git";
 import { FileLock } from "../storage/lock";
-import { StorageManager, BatchEntry } from "../storage/storage";
+import {
+  StorageManager,
+  BatchEntry,
+  EVENTS_BRANCH,
+  MANUAL_BRANCH,
+  PRIVATE_BRANCH,
+  isActivityEvent,
+} from "../storage/storage";
 import { OperationRepository } from "../storage/operationRepository";
 import { OperationQueueWriter } from "./operationQueueWriter";
 import {
   WriteTimeReportRequest,
   UpdateProjectsRequest,
   ProjectChangeRequest,
+  OperationAttempt,
+  OperationFailure,
   OperationRequest,
+  OperationRetryState,
 } from "../types/operation";
+import { toEnvironmentDirectory } from "../utils/environment";
 import { Logger } from "../utils/logger";
 
+// A request to process, with the older requests it made redundant
+interface QueuedOperation {
+  file: string;
+  request: OperationRequest;
+  superseded: string[];
+  // Null until the request failed once
+  retry: OperationRetryState | null;
+}
+
+// Applied to the data directory, waiting for the cycle's commit
+interface PendingWrite {
+  operation: QueuedOperation;
+  message: string;
+}
+
 export class OperationQueueProcessor {
   private config: CoftConfig;
   private git: GitManager;
@@ -23,31 +48,70 @@ export class OperationQueueProcessor {
   private logger: Logger;
   private operationRepository: OperationRepository;
   private timer: NodeJS.Timeout | null = null;
-  private failureCounts: Map<string, number> = new Map();
+  private watcher: fsSync.FSWatcher | null = null;
+  private debounceTimer: NodeJS.Timeout | null = null;
   private maxFailures: number = 5;
+  // Waits after a failure double up to the maximum
+  private retryBaseMs: number = 10000;
+  private maxRetryDelayMs: number = 5 * 60 * 1000;
+  // Results nobody waited for are removed after a day
+  private resultMaxAgeMs: number = 24 * 60 * 60 * 1000;
+  // Polling only catches what the watcher missed
   private intervalMs: number = 10000;
+  // Requests written in a burst are handled in one lock acquisition
+  private debounceMs: number = 200;
   private processing: boolean = false;
+  private rerunRequested: boolean = false;
+  // Set when the lock's lease is found lost mid-cycle; the rest of the cycle
+  // writes and commits nothing, leaving its requests queued
+  private lockLost: boolean = false;
+  private pendingWrites: PendingWrite[] = [];
+  private onBatchCommitted: (() => void) | undefined;
 
   constructor(
     config: CoftConfig,
     git: GitManager,
     storage: StorageManager,
     logger: Logger,
+    onBatchCommitted?: () => void,
   ) {
     this.config = config;
     this.git = git;
     this.storage = storage;
     this.lock = new FileLock(this.config.data, logger);
     this.logger = logger;
+    this.onBatchCommitted = onBatchCommitted;
     this.operationRepository = new OperationRepository(config, logger);
   }
 
   start(): void {
-    this.logger.info("Starting operation queue processor (10s interval)");
+    this.logger.info(
+      "Starting operation queue processor (watching, 10s fallback interval)",
+    );
+    this.recoverOnStartup();
+    this.operationRepository.pruneResults(this.resultMaxAgeMs);
+    try {
+      this.watcher = fsSync.watch(
+        this.config.operationQueue,
+        (_event, file) => {
+          if (!file || file.toString().endsWith(".json")) {
+            this.scheduleProcessing();
+          }
+        },
+      );
+      this.watcher.on("error", () => this.closeWatcher());
+    } catch (error) {
+      this.logger.debug(`Unable to watch operation queue: ${error}`);
+    }
     this.timer = setInterval(() => this.processQueue(), this.intervalMs);
   }
 
   stop(): void {
+    this.closeWatcher();
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+      this.debounceTimer = null;
+    }
     if (this.timer) {
       clearInterval(this.timer);
       this.timer = null;
@@ -55,8 +119,33 @@ export class OperationQueueProcessor {
     }
   }
 
+  // Last cycle when the leader window closes or reinitializes: nothing new
+  // is scheduled, the cycle in flight finishes, then requests written while
+  // shutting down are processed
+  async flush(): Promise<void> {
+    this.stop();
+    while (this.processing) {
+      await new Promise((resolve) => setTimeout(resolve, 50));
+    }
+    await this.processQueue();
+  }
+
+  // Restarts the debounce window on every change, so a burst of requests
+  // runs one cycle once it has settled
+  private scheduleProcessing(): void {
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+    }
+    this.debounceTimer = setTimeout(() => {
+      this.debounceTimer = null;
+      this.processQueue();
+    }, this.debounceMs);
+  }
+
   async processQueue(): Promise<void> {
     if (this.processing) {
+      // Requests that arrive mid-cycle get their own cycle right after
+      this.rerunRequested = true;
       return;
     }
 
@@ -68,9 +157,25 @@ export class OperationQueueProcessor {
         return;
       }
 
+      const queued = await this.selectDueOperations(
+        this.coalesceOperations(operations),
+      );
+      if (queued.length === 0) {
+        return;
+      }
+
       this.logger.info(
-        `--- Processing ${operations.length} operation request(s) ---`,
+        `--- Processing ${queued.length} operation request(s) ---`,
+      );
+      const superseded = queued.reduce(
+        (count, operation) => count + operation.superseded.length,
+        0,
       );
+      if (superseded > 0) {
+        this.logger.info(
+          `Coalesced ${superseded} superseded operation request(s)`,
+        );
+      }
 
       const lockAcquired = await this.lock.acquire(1000);
       if (!lockAcquired) {
@@ -79,9 +184,15 @@ export class OperationQueueProcessor {
       }
 
       try {
-        for (const { file, request } of operations) {
-          await this.processRequest(file, request);
+        this.pendingWrites = [];
+        this.lockLost = false;
+        for (const operation of queued) {
+          if (!(await this.checkLock())) {
+            break;
+          }
+          await this.processRequest(operation);
         }
+        await this.commitPendingWrites();
       } finally {
         await this.lock.release();
       }
@@ -90,18 +201,184 @@ export class OperationQueueProcessor {
     } catch (error) {
       this.logger.error(`Error processing operation queue: ${error}`);
     } finally {
-      this.processing = false;
+      this.finishProcessing();
     }
   }
 
-  private async processRequest(
-    filename: string,
-    request: OperationRequest,
-  ): Promise<void> {
+  private finishProcessing(): void {
+    this.processing = false;
+    if (this.rerunRequested) {
+      this.rerunRequested = false;
+      // Nothing is scheduled once stopped
+      if (this.timer) {
+        this.scheduleProcessing();
+      }
+    }
+  }
+
+  private closeWatcher(): void {
+    if (this.watcher) {
+      this.watcher.close();
+      this.watcher = null;
+    }
+  }
+
+  // A window that died during a batch leaves its entries in queue_batch;
+  // they are recovered as soon as the lock is free
+  private async recoverOnStartup(): Promise<void> {
+    if (this.processing) {
+      return;
+    }
+
+    this.processing = true;
+    try {
+      if (!(await this.storage.hasBatchFiles())) {
+        return;
+      }
+
+      const lockAcquired = await this.lock.acquire(1000);
+      if (!lockAcquired) {
+        this.logger.info(
+          "Lock busy, queue_batch is recovered with the next batch",
+        );
+        return;
+      }
+
+      try {
+        await this.recoverInterruptedBatch();
+      } finally {
+        await this.lock.release();
+      }
+    } catch (error) {
+      this.logger.error(`Error recovering interrupted batch: ${error}`);
+    } finally {
+      this.finishProcessing();
+    }
+  }
+
+  // Runs under the lock, so files left in queue_batch belong to a batch that
+  // did not finish. When its batch file was committed they are already
+  // counted; otherwise the half-written batch is dropped and they are requeued
+  private async recoverInterruptedBatch(): Promise<void> {
+    const batchFilename = await this.storage.readBatchMarker();
+    if (!(await this.storage.hasBatchFiles())) {
+      if (batchFilename) {
+        await this.storage.clearBatchMarker();
+      }
+      return;
+    }
+
+    if (
+      batchFilename &&
+      (await this.git.isCommitted(`batches/${batchFilename}`))
+    ) {
+      this.logger.info(
+        `Batch ${batchFilename} was committed before the interruption, discarding its queue files`,
+      );
+      await this.storage.deleteBatchFiles();
+    } else {
+      if (batchFilename) {
+        await this.storage.batchRepository.deleteBatch(batchFilename);
+      }
+      this.logger.info("Requeuing queue files of an interrupted batch");
+      await this.storage.moveBatchToQueue();
+    }
+    await this.storage.clearBatchMarker();
+  }
+
+  // Only the newest write of a file, and the newest add/update of a project
+  // mapping, matters; older ones are dropped together with it. Requests are
+  // walked newest first so each survivor keeps its own position
+  private coalesceOperations(
+    operations: { file: string; request: OperationRequest }[],
+  ): QueuedOperation[] {
+    const queued: QueuedOperation[] = [];
+    const newest = new Map<string, QueuedOperation>();
+
+    for (let i = operations.length - 1; i >= 0; i--) {
+      const { file, request } = operations[i];
+      const key = this.getSupersedeKey(request);
+      const newer = key ? newest.get(key) : undefined;
+      if (newer) {
+        newer.superseded.push(file);
+        continue;
+      }
+      const operation: QueuedOperation = {
+        file,
+        request,
+        superseded: [],
+        retry: null,
+      };
+      if (key) {
+        newest.set(key, operation);
+      }
+      queued.unshift(operation);
+    }
+
+    return queued;
+  }
+
+  private getSupersedeKey(request: OperationRequest): string | undefined {
+    if (request.type === "timereport" || request.type === "projects") {
+      return `${request.type}\0${request.file}`;
+    }
+    if (request.type === "projectChange") {
+      if (request.action === "add" || request.action === "update") {
+        return `projectChange\0${request.branch}\0${request.directory}`;
+      }
+      if (request.action === "addUnbound") {
+        return `addUnbound\0${request.project}`;
+      }
+    }
+    return undefined;
+  }
+
+  // Requests that failed before wait until their backoff has passed
+  private async selectDueOperations(
+    queued: QueuedOperation[],
+    now: number = Date.now(),
+  ): Promise<QueuedOperation[]> {
+    const due: QueuedOperation[] = [];
+    for (const operation of queued) {
+      operation.retry = await this.operationRepository.readRetryState(
+        operation.file,
+      );
+      if (!operation.retry || operation.retry.nextAttemptAt <= now) {
+        due.push(operation);
+      }
+    }
+    if (due.length < queued.length) {
+      this.logger.debug(
+        `${queued.length - due.length} operation request(s) waiting to be retried`,
+      );
+    }
+    return due;
+  }
+
+  private async processRequest(operation: QueuedOperation): Promise<void> {
+    const { request } = operation;
+    if (request.type === "invalid") {
+      // Retrying cannot fix the file, so it goes to the backup right away
+      const failedAt = Date.now();
+      await this.moveToBackup(operation.file, {
+        error: request.reason,
+        failedAt,
+        attempts: 1,
+        history: [{ at: failedAt, error: request.reason }],
+      });
+      return;
+    }
+
     try {
       if (request.type === "processBatch") {
+        // Batches commit on their own; recovery relies on that commit
+        await this.commitPendingWrites();
         await this.processProcessBatch();
       } else if (request.type === "housekeeping") {
+        await this.commitPendingWrites();
+        if (!(await this.checkLock())) {
+          return;
+        }
         const firstToday = await this.git.isFirstCommitToday();
         if (firstToday) {
           const result = await this.storage.collectBatches();
@@ -111,20 +388,91 @@ export class OperationQueueProcessor {
             this.logger.info("No batch entries to collect during housekeeping");
           }
           await this.git.housekeeping();
+          await this.operationRepository.pruneResults(this.resultMaxAgeMs);
         } else {
           this.logger.info("Housekeeping already done today, skipping");
         }
       } else if (request.type === "projectChange") {
         await this.processProjectChange(request);
-      } else if (request.type === "invalid") {
-        throw new Error("Invalid request JSON");
+        this.pendingWrites.push({
+          operation,
+          message: this.describeProjectChange(request),
+        });
+        return;
       } else {
         await this.processFileRequest(request);
+        this.pendingWrites.push({
+          operation,
+          message: `${request.type}: ${request.file}`,
+        });
+        return;
       }
 
-      // Delete the processed request
+      if (this.lockLost) {
+        return;
+      }
+      await this.completeOperation(operation);
+    } catch (error) {
+      await this.recordFailure(operation, error);
+    }
+  }
+
+  // Another window takes the lock over once its lease ran out (this one
+  // stalled past it), and may be writing the same files by now
+  private async checkLock(): Promise<boolean> {
+    if (
+      !this.lockLost &&
+      (this.lock.isLeaseLost() || !(await this.lock.isHeld()))
+    ) {
+      this.lockLost = true;
+      this.logger.error("Lock lease lost, abandoning the rest of this cycle");
+    }
+    return !this.lockLost;
+  }
+
+  // All writes of a cycle share one commit. Their requests are deleted only
+  // once it succeeded; a failed commit counts as a failed attempt for each
+  private async commitPendingWrites(): Promise<void> {
+    const writes = this.pendingWrites;
+    if (writes.length === 0) {
+      return;
+    }
+    this.pendingWrites = [];
+    if (!(await this.checkLock())) {
+      // Still queued, so the next cycle writes and commits them again
+      return;
+    }
+
+    const messages = writes.map((write) => write.message);
+    try {
+      await this.git.commit(
+        messages.length === 1
+          ? messages[0]
+          : `${messages.length} operations: ${messages.join("; ")}`,
+      );
+    } catch (error) {
+      for (const write of writes) {
+        await this.recordFailure(write.operation, error);
+      }
+      return;
+    }
+
+    for (const write of writes) {
+      await this.completeOperation(write.operation);
+    }
+  }
+
+  private async completeOperation(operation: QueuedOperation): Promise<void> {
+    const { file: filename, request, superseded } = operation;
+    try {
+      // Delete the processed request and the ones it superseded; their
+      // changes are part of its commit
       await this.operationRepository.deleteOperation(filename);
-      this.failureCounts.delete(filename);
+      await this.operationRepository.recordResult(filename, "committed");
+      for (const file of superseded) {
+        await this.operationRepository.deleteOperation(file);
+        await this.operationRepository.recordResult(file, "committed");
+      }
       const fileInfo =
         request.type === "timereport" || request.type === "projects"
           ? ` - ${request.file}`
@@ -146,20 +494,85 @@ export class OperationQueueProcessor {
         }
       }
     } catch (error) {
-      const count = (this.failureCounts.get(filename) || 0) + 1;
-      this.failureCounts.set(filename, count);
       this.logger.error(
-        `Error processing operation request ${filename} (attempt ${count}/${this.maxFailures}): ${error}`,
+        `Error completing operation request ${filename}: ${error}`,
       );
+    }
+  }
 
-      if (count >= this.maxFailures) {
-        const requestPath = path.join(this.config.operationQueue, filename);
-        await this.moveToBackup(filename, requestPath);
+  private async recordFailure(
+    operation: QueuedOperation,
+    error: unknown,
+  ): Promise<void> {
+    const filename = operation.file;
+    const now = Date.now();
+    const history: OperationAttempt[] = [
+      ...(operation.retry?.attempts ?? []),
+      { at: now, error: String(error) },
+    ];
+    const count = history.length;
+
+    if (count >= this.maxFailures) {
+      this.logger.error(
+        `Error processing operation request ${filename} (attempt ${count}/${this.maxFailures}): ${error}`,
+      );
+      for (const attempt of history) {
+        this.logger.error(
+          `  ${filename} attempt at ${new Date(attempt.at).toISOString()}: ${attempt.error}`,
+        );
       }
+      await this.moveToBackup(filename, {
+        error: String(error),
+        failedAt: now,
+        attempts: count,
+        history,
+      });
+      // The backed-up request holds the newest content; the older ones would
+      // only overwrite it once retried
+      for (const file of operation.superseded) {
+        await this.operationRepository.deleteOperation(file);
+        await this.operationRepository.recordResult(
+          file,
+          "failed",
+          String(error),
+        );
+      }
+      return;
+    }
+
+    const delay = this.getRetryDelay(count);
+    this.logger.error(
+      `Error processing operation request ${filename} (attempt ${count}/${this.maxFailures}, retrying in ${Math.round(delay / 1000)}s): ${error}`,
+    );
+    operation.retry = { attempts: history, nextAttemptAt: now + delay };
+    try {
+      // Kept on disk so a restart neither resets the count nor skips the wait
+      await this.operationRepository.writeRetryState(filename, operation.retry);
+    } catch (writeError) {
+      this.logger.error(
+        `Error recording retry state of ${filename}: ${writeError}`,
+      );
     }
+    // Callers hear of the failure now rather than after the last attempt
+    for (const file of [filename, ...operation.superseded]) {
+      await this.operationRepository.recordResult(
+        file,
+        "retrying",
+        String(error),
+      );
+    }
+  }
+
+  private getRetryDelay(attempts: number): number {
+    return Math.min(
+      this.retryBaseMs * 2 ** (attempts - 1),
+      this.maxRetryDelayMs,
+    );
   }
 
   private async processProcessBatch(): Promise<void> {
+    await this.recoverInterruptedBatch();
+
     this.logger.debug("Moving files from queue to batch...");
     const movedFiles = await this.storage.moveQueueToBatch();
 
@@ -172,6 +585,8 @@ export class OperationQueueProcessor {
     const entries = await this.storage.readBatchFiles();
 
     if (entries.length === 0) {
+      // Nothing readable to batch; left in place they would be requeued
+      await this.storage.deleteBatchFiles();
       return;
     }
 
@@ -179,8 +594,17 @@ export class OperationQueueProcessor {
     const grouped: BatchEntry = {};
 
     for (const entry of entries) {
-      const branch = entry.gitBranch || "no-branch";
-      const directory = entry.directory;
+      const branch = isActivityEvent(entry.kind)
+        ? EVENTS_BRANCH
+        : entry.kind === "manual"
+          ? MANUAL_BRANCH
+          : entry.private
+            ? PRIVATE_BRANCH
+            : entry.gitBranch || "no-branch";
+      const directory = toEnvironmentDirectory(
+        entry.directory,
+        entry.remoteAuthority,
+      );
 
       if (!grouped[branch]) {
         grouped[branch] = {};
@@ -193,21 +617,32 @@ export class OperationQueueProcessor {
       grouped[branch][directory].push({
         File: entry.filename,
         Timestamp: entry.timestamp,
+        Kind: entry.kind || "save",
+        Language: entry.languageId,
+        Added: entry.linesAdded,
+        Removed: entry.linesRemoved,
+        Project: entry.project,
+        Comment: entry.comment,
       });
     }
 
     // Write batch to data directory
-    const timestamp = Date.now();
-    const suffix = Math.random().toString(36).substring(2, 8);
-    const batchFilename = `batch_${timestamp}_${suffix}.json`;
+    const batchFilename = this.storage.getBatchFilename(movedFiles, entries);
 
+    await this.storage.writeBatchMarker(batchFilename);
     await this.storage.batchRepository.saveBatch(grouped, batchFilename);
 
+    if (!(await this.checkLock())) {
+      // The marker lets the next holder recover the batch
+      return;
+    }
     await this.git.commit(`processBatch: batches/${batchFilename}`);
 
     this.logger.debug("Deleting batch files...");
     await this.storage.deleteBatchFiles();
+    await this.storage.clearBatchMarker();
     this.logger.info(`Batch entry committed: ${batchFilename}`);
+    this.onBatchCommitted?.();
   }
 
   private async processFileRequest(
@@ -219,9 +654,6 @@ export class OperationQueueProcessor {
     } else if (request.type === "projects") {
       await this.storage.projectRepository.saveProjects(request.body);
     }
-
-    // Commit the change
-    await this.git.commit(`${request.type}: ${request.file}`);
   }
 
   private async processProjectChange(
@@ -242,29 +674,41 @@ export class OperationQueueProcessor {
     } else if (request.action === "addUnbound") {
       await this.storage.projectRepository.addUnboundProject(request.project!);
     }
+  }
 
-    // Commit the change
+  private describeProjectChange(request: ProjectChangeRequest): string {
     const details =
       request.action === "addUnbound"
         ? request.project
         : `${request.branch}/${request.directory}`;
-    await this.git.commit(`projectChange: ${request.action} ${details}`);
+    return `projectChange: ${request.action} ${details}`;
   }
 
   private async moveToBackup(
     filename: string,
-    requestPath: string,
+    failure: OperationFailure,
   ): Promise<void> {
-    const backupPath = path.join(this.config.operationQueueBackup, filename);
-    await fs.mkdir(this.config.operationQueueBackup, { recursive: true });
-
     try {
-      await fs.rename(requestPath, backupPath);
-      this.failureCounts.delete(filename);
-      this.logger.info(`Operation request moved to backup: ${filename}`);
-      vscode.window.showErrorMessage(
-        `COFT SmartTime: Operation request failed too many times and was moved to backup: ${filename}`,
+      await this.operationRepository.moveToBackup(filename, failure);
+      await this.operationRepository.recordResult(
+        filename,
+        "failed",
+        failure.error,
       );
+      this.logger.info(`Operation request moved to backup: ${filename}`);
+      const showAction = "Show Failed Operations";
+      vscode.window
+        .showErrorMessage(
+          `COFT SmartTime: Operation request failed too many times and was moved to backup: ${filename}`,
+          showAction,
+        )
+        .then((action) => {
+          if (action === showAction) {
+            vscode.commands.executeCommand(
+              "coft-smarttime.showFailedOperations",
+            );
+          }
+        });
     } catch (moveError) {
       this.logger.error(`Error moving request to backup: ${moveError}`);
     }
@@ -7,12 +7,15 @@ export class OperationQueueWriter {
     operationRepository: OperationRepository,
     request: OperationRequest,
     logger: Logger,
-  ): Promise<void> {
-    await operationRepository.addOperation(request);
+  ): Promise<string> {
+    const id = await operationRepository.addOperation(request);
     const fileInfo =
       request.type === "timereport" || request.type === "projects"
         ? ` - ${request.file}`
         : "";
-    logger.info(`Operation request created: (${request.type}${fileInfo})`);
+    logger.info(
+      `Operation request created: ${id} (${request.type}${fileInfo})`,
+    );
+    return id;
   }
 }
@@ -0,0 +1,57 @@
+import * as assert from "assert";
+import { SavedContentTracker } from "./savedContentTracker";
+
+suite("SavedContentTracker Test Suite", () => {
+  test("recordSave diffs against the remembered content", async () => {
+    const tracker = new SavedContentTracker();
+    tracker.remember("file:///a.ts", "one\ntwo");
+    assert.deepStrictEqual(
+      await tracker.recordSave("file:///a.ts", "one\ntwo\nthree"),
+      { added: 1, removed: 0 },
+    );
+  });
+
+  test("recordSave makes the saved content the next baseline", async () => {
+    const tracker = new SavedContentTracker();
+    tracker.remember("file:///a.ts", "one");
+    // Not awaited: the next save already diffs against the new baseline
+    const first = tracker.recordSave("file:///a.ts", "one\ntwo");
+    assert.deepStrictEqual(await tracker.recordSave("file:///a.ts", "two"), {
+      added: 0,
+      removed: 1,
+    });
+    assert.deepStrictEqual(await first, { added: 1, removed: 0 });
+  });
+
+  test("recordSave without a baseline has no diff but starts one", async () => {
+    const tracker = new SavedContentTracker();
+    assert.strictEqual(
+      await tracker.recordSave("file:///a.ts", "one"),
+      undefined,
+    );
+    assert.deepStrictEqual(
+      await tracker.recordSave("file:///a.ts", "one\ntwo"),
+      { added: 1, removed: 0 },
+    );
+  });
+
+  test("forget drops the baseline", async () => {
+    const tracker = new SavedContentTracker();
+    tracker.remember("file:///a.ts", "one");
+    tracker.forget("file:///a.ts");
+    assert.strictEqual(
+      await tracker.recordSave("file:///a.ts", "two"),
+      undefined,
+    );
+  });
+
+  test("very large documents are not kept", async () => {
+    const tracker = new SavedContentTracker();
+    const large = "x".repeat(2 * 1024 * 1024);
+    tracker.remember("file:///big.txt", large);
+    assert.strictEqual(
+      await tracker.recordSave("file:///big.txt", `${large}\n`),
+      undefined,
+    );
+  });
+});
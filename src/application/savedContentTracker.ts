@@ -0,0 +1,42 @@
+import { computeLineDiff, LineDiff, splitLines } from "../utils/lineDiff";
+
+// Larger documents are not kept in memory and get no diff stat
+const MAX_TRACKED_LENGTH = 1024 * 1024;
+
+export class SavedContentTracker {
+  // Last saved (or opened) text per document URI, split into lines only
+  // when the next save is diffed against it
+  private contents = new Map<string, string>();
+
+  remember(uri: string, text: string): void {
+    if (text.length > MAX_TRACKED_LENGTH) {
+      this.contents.delete(uri);
+      return;
+    }
+    this.contents.set(uri, text);
+  }
+
+  forget(uri: string): void {
+    this.contents.delete(uri);
+  }
+
+  // Diff against the previous saved content, which the new text then replaces;
+  // undefined when there is nothing to compare with. The baseline moves on
+  // at once, while the diff itself runs after the save event is handled
+  recordSave(uri: string, text: string): Promise<LineDiff | undefined> {
+    const previous = this.contents.get(uri);
+    this.remember(uri, text);
+    if (previous === undefined || !this.contents.has(uri)) {
+      return Promise.resolve(undefined);
+    }
+    return new Promise((resolve) => {
+      setImmediate(() =>
+        resolve(computeLineDiff(splitLines(previous), splitLines(text))),
+      );
+    });
+  }
+
+  clear(): void {
+    this.contents.clear();
+  }
+}
@@ -0,0 +1,120 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+import * as fs from "fs/promises";
+import * as path from "path";
+import * as os from "os";
+import { TrackingControl } from "./trackingControl";
+import { TrackingState } from "../storage/trackingStateRepository";
+import { StorageManager } from "../storage/storage";
+import { CoftConfig } from "./config";
+import { Logger } from "../utils/logger";
+
+function createTestConfig(testRoot: string): CoftConfig {
+  return {
+    root: testRoot,
+    queue: path.join(testRoot, "queue"),
+    queueBatch: path.join(testRoot, "queue_batch"),
+    queueBackup: path.join(testRoot, "queue_backup"),
+    operationQueue: path.join(testRoot, "operation_queue"),
+    operationQueueBackup: path.join(testRoot, "operation_queue_backup"),
+    data: path.join(testRoot, "data"),
+    backup: path.join(testRoot, "backup"),
+    intervalSeconds: 60,
+    viewGroupByMinutes: 15,
+    branchTaskUrl: "",
+    exportDir: "",
+    exportAgeDays: 90,
+    startOfWeek: "monday",
+    editThrottleSeconds: 30,
+    idleThresholdMinutes: 5,
+    outsideWorkspace: "repository",
+  };
+}
+
+suite("TrackingControl Test Suite", () => {
+  let testRoot: string;
+  let testConfig: CoftConfig;
+  let storage: StorageManager;
+  let logger: Logger;
+  let changes: TrackingState[];
+  let control: TrackingControl;
+
+  setup(async () => {
+    testRoot = path.join(os.tmpdir(), `coft-tracking-control-${Date.now()}`);
+    testConfig = createTestConfig(testRoot);
+    const outputChannel = vscode.window.createOutputChannel(
+      "TrackingControl Test",
+    );
+    logger = new Logger(outputChannel, false);
+    storage = new StorageManager(testConfig, logger);
+    await storage.initialize();
+    changes = [];
+    control = new TrackingControl(storage, logger, (state) =>
+      changes.push(state),
+    );
+  });
+
+  teardown(async () => {
+    control.stop();
+    try {
+      await fs.rm(testRoot, { recursive: true, force: true });
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  test("starts active without a state file", async () => {
+    await control.start();
+    assert.strictEqual(control.getMode(), "active");
+    assert.deepStrictEqual(
+      changes.map((s) => s.mode),
+      ["active"],
+    );
+  });
+
+  test("pause for a duration ends on its own", async () => {
+    await control.start();
+    await control.pause(30, 1000);
+    assert.strictEqual(control.getMode(1000 + 29 * 60 * 1000), "paused");
+    assert.strictEqual(control.getMode(1000 + 30 * 60 * 1000), "active");
+  });
+
+  test("pause without a duration lasts until resumed", async () => {
+    await control.start();
+    await control.pause(undefined, 1000);
+    assert.strictEqual(control.getMode(1000 + 24 * 60 * 60 * 1000), "paused");
+    await control.resume(2000);
+    assert.strictEqual(control.getMode(2000), "active");
+  });
+
+  test("state is shared with other instances through the root", async () => {
+    await control.start();
+    const other = new TrackingControl(storage, logger, () => {});
+    try {
+      await other.start();
+      await other.startPrivateMode();
+      await (control as any).reload();
+      assert.strictEqual(control.getMode(), "private");
+      assert.strictEqual(changes[changes.length - 1].mode, "private");
+    } finally {
+      other.stop();
+    }
+  });
+
+  test("unchanged state does not notify again", async () => {
+    await control.start();
+    await (control as any).reload();
+    await (control as any).reload();
+    assert.strictEqual(changes.length, 1);
+  });
+
+  test("an unreadable state file counts as active", async () => {
+    await fs.writeFile(
+      storage.trackingStateRepository.getStatePath(),
+      "{ not json",
+      "utf-8",
+    );
+    await control.start();
+    assert.strictEqual(control.getMode(), "active");
+  });
+});
@@ -0,0 +1,125 @@
+import * as fsSync from "fs";
+import * as path from "path";
+import { StorageManager } from "../storage/storage";
+import {
+  TRACKING_STATE_FILE,
+  TrackingMode,
+  TrackingState,
+} from "../storage/trackingStateRepository";
+import { Logger } from "../utils/logger";
+
+export class TrackingControl {
+  private storage: StorageManager;
+  private logger: Logger;
+  private onChange: (state: TrackingState) => void;
+  private state: TrackingState = { mode: "active", changedAt: 0 };
+  private lastSignature: string = "";
+  private watcher: fsSync.FSWatcher | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  // Also picks up expired pauses and changes a watcher missed
+  private checkIntervalMs: number = 30000;
+
+  constructor(
+    storage: StorageManager,
+    logger: Logger,
+    onChange: (state: TrackingState) => void,
+  ) {
+    this.storage = storage;
+    this.logger = logger;
+    this.onChange = onChange;
+  }
+
+  async start(): Promise<void> {
+    await this.reload();
+    const statePath = this.storage.trackingStateRepository.getStatePath();
+    try {
+      // Watch the directory: the state file is replaced through a rename
+      this.watcher = fsSync.watch(path.dirname(statePath), (_event, file) => {
+        if (!file || file.toString() === TRACKING_STATE_FILE) {
+          this.reload();
+        }
+      });
+      this.watcher.on("error", () => this.closeWatcher());
+    } catch (error) {
+      this.logger.debug(`Unable to watch tracking state: ${error}`);
+    }
+    this.timer = setInterval(() => this.reload(), this.checkIntervalMs);
+  }
+
+  stop(): void {
+    this.closeWatcher();
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // The mode in effect now; a pause past its end counts as active
+  getMode(now: number = Date.now()): TrackingMode {
+    if (
+      this.state.mode === "paused" &&
+      this.state.pausedUntil !== undefined &&
+      this.state.pausedUntil <= now
+    ) {
+      return "active";
+    }
+    return this.state.mode;
+  }
+
+  getState(now: number = Date.now()): TrackingState {
+    return this.getMode(now) === this.state.mode
+      ? this.state
+      : { mode: "active", changedAt: this.state.pausedUntil ?? now };
+  }
+
+  async pause(minutes?: number, now: number = Date.now()): Promise<void> {
+    await this.setState({
+      mode: "paused",
+      pausedUntil: minutes ? now + minutes * 60 * 1000 : undefined,
+      changedAt: now,
+    });
+  }
+
+  async startPrivateMode(now: number = Date.now()): Promise<void> {
+    await this.setState({ mode: "private", changedAt: now });
+  }
+
+  async resume(now: number = Date.now()): Promise<void> {
+    await this.setState({ mode: "active", changedAt: now });
+  }
+
+  private async setState(state: TrackingState): Promise<void> {
+    await this.storage.trackingStateRepository.saveState(state);
+    this.logger.info(
+      state.pausedUntil
+        ? `Tracking ${state.mode} until ${new Date(state.pausedUntil).toLocaleTimeString()}`
+        : `Tracking ${state.mode}`,
+    );
+    this.apply(state);
+  }
+
+  private async reload(): Promise<void> {
+    try {
+      this.apply(await this.storage.trackingStateRepository.readState());
+    } catch (error) {
+      this.logger.error(`Error reading tracking state: ${error}`);
+    }
+  }
+
+  private apply(state: TrackingState): void {
+    this.state = state;
+    const effective = this.getState();
+    const signature = `${effective.mode}:${effective.pausedUntil ?? ""}`;
+    if (signature !== this.lastSignature) {
+      this.lastSignature = signature;
+      this.onChange(effective);
+    }
+  }
+
+  private closeWatcher(): void {
+    if (this.watcher) {
+      this.watcher.close();
+      this.watcher = null;
+    }
+  }
+}
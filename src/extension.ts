@@ -1,23 +1,60 @@
 import * as vscode from "vscode";
+import * as os from "os";
 import * as path from "path";
-import { ConfigManager } from "./application/config";
-import { StorageManager } from "./storage/storage";
+import { CoftConfig, ConfigManager } from "./application/config";
+import {
+  ActivityKind,
+  LOOSE_FILES_DIRECTORY,
+  StorageManager,
+} from "./storage/storage";
 import { GitManager } from "./storage/git";
+import { FileLock } from "./storage/lock";
 import { BatchProcessor } from "./application/batchProcessor";
 import { OperationQueueProcessor } from "./application/operationQueueProcessor";
 import { OperationQueueWriter } from "./application/operationQueueWriter";
+import { ActivityThrottle } from "./application/activityThrottle";
+import { ActivityMonitor } from "./application/activityMonitor";
+import { ManualTimer } from "./application/manualTimer";
+import { TrackingControl } from "./application/trackingControl";
+import { LeaderElection } from "./application/leaderElection";
+import { SavedContentTracker } from "./application/savedContentTracker";
+import { FileFilter } from "./application/fileFilter";
 import { TimeReportProvider } from "./presentation/timeReport";
 import { TimeSummaryProvider } from "./presentation/timeSummary";
+import { StatusBarProvider } from "./presentation/statusBar";
+import { FailedOperationsProvider } from "./presentation/failedOperations";
+import {
+  parseEnvironmentDirectory,
+  RemoteEnvironment,
+} from "./utils/environment";
+import { LineDiff } from "./utils/lineDiff";
 import { Logger } from "./utils/logger";
 
+// Local files, and remote files opened through a remote window
+const TRACKED_SCHEMES = ["file", "vscode-remote"];
+// VS Code gives deactivate only a few seconds
+const FLUSH_TIMEOUT_MS = 4000;
+
 let outputChannel: vscode.OutputChannel;
 let logger: Logger;
+let configManager: ConfigManager | null = null;
+let coftConfig: CoftConfig | null = null;
 let batchProcessor: BatchProcessor | null = null;
 let operationQueueProcessor: OperationQueueProcessor | null = null;
 let timeReportProvider: TimeReportProvider | null = null;
 let timeSummaryProvider: TimeSummaryProvider | null = null;
+let statusBarProvider: StatusBarProvider | null = null;
+let failedOperationsProvider: FailedOperationsProvider | null = null;
 let storage: StorageManager | null = null;
 let git: GitManager | null = null;
+let editThrottle: ActivityThrottle | null = null;
+let activityMonitor: ActivityMonitor | null = null;
+let manualTimer: ManualTimer | null = null;
+let trackingControl: TrackingControl | null = null;
+let leaderElection: LeaderElection | null = null;
+// Outlives reinitialization: it mirrors the documents open in this window
+const savedContents = new SavedContentTracker();
+// Lifecycle flag; whether activity is recorded also depends on isTracking()
 let isEnabled = false;
 
 export async function activate(context: vscode.ExtensionContext) {
@@ -30,12 +67,80 @@ export async function activate(context: vscode.ExtensionContext) {
   const version = context.extension.packageJSON.version;
   logger.info(`Extension version: ${version}`);
 
+  // Keep each tracked document's saved content to diff the next save
+  // against; other schemes (output, git, untitled...) are never recorded
+  for (const document of vscode.workspace.textDocuments) {
+    if (!document.isDirty && TRACKED_SCHEMES.includes(document.uri.scheme)) {
+      savedContents.remember(document.uri.toString(), document.getText());
+    }
+  }
+  const openDisposable = vscode.workspace.onDidOpenTextDocument((document) => {
+    if (TRACKED_SCHEMES.includes(document.uri.scheme)) {
+      savedContents.remember(document.uri.toString(), document.getText());
+    }
+  });
+  const closeDisposable = vscode.workspace.onDidCloseTextDocument(
+    (document) => {
+      savedContents.forget(document.uri.toString());
+    },
+  );
+
   // Register save hook
   const saveDisposable = vscode.workspace.onDidSaveTextDocument(
     async (document) => {
-      if (isEnabled) {
-        await handleFileSave(document);
+      // The baseline moves on even while paused
+      const lineDiff = TRACKED_SCHEMES.includes(document.uri.scheme)
+        ? savedContents.recordSave(document.uri.toString(), document.getText())
+        : undefined;
+      if (isTracking()) {
+        await recordActivity();
+        await handleFileActivity(document, "save", await lineDiff);
+      }
+    },
+  );
+
+  // Register edit hook (throttled per document)
+  const changeDisposable = vscode.workspace.onDidChangeTextDocument(
+    async (event) => {
+      if (!isTracking()) {
+        return;
       }
+      if (
+        event.contentChanges.length === 0 ||
+        !TRACKED_SCHEMES.includes(event.document.uri.scheme)
+      ) {
+        return;
+      }
+      await recordActivity();
+      if (
+        editThrottle &&
+        editThrottle.shouldRecord(event.document.uri.toString())
+      ) {
+        await handleFileActivity(event.document, "edit");
+      }
+    },
+  );
+
+  // Register focus and editor activity hooks for idle detection
+  const windowStateDisposable = vscode.window.onDidChangeWindowState(
+    async (state) => {
+      if (isTracking() && activityMonitor) {
+        await activityMonitor.windowStateChanged(state.focused);
+      }
+    },
+  );
+  const selectionDisposable = vscode.window.onDidChangeTextEditorSelection(
+    async () => {
+      await recordActivity();
+    },
+  );
+  const visibleRangesDisposable =
+    vscode.window.onDidChangeTextEditorVisibleRanges(async () => {
+      await recordActivity();
+    });
+  const activeEditorDisposable = vscode.window.onDidChangeActiveTextEditor(
+    async () => {
+      await recordActivity();
     },
   );
 
@@ -63,6 +168,18 @@ export async function activate(context: vscode.ExtensionContext) {
     },
   );
 
+  // Register failed operations command
+  const failedOperationsDisposable = vscode.commands.registerCommand(
+    "coft-smarttime.showFailedOperations",
+    async () => {
+      if (failedOperationsProvider) {
+        await failedOperationsProvider.show(context);
+      } else {
+        vscode.window.showErrorMessage("COFT SmartTime is not initialized");
+      }
+    },
+  );
+
   // Register backup command
   const backupDisposable = vscode.commands.registerCommand(
     "coft-smarttime.backup",
@@ -77,6 +194,101 @@ export async function activate(context: vscode.ExtensionContext) {
     },
   );
 
+  // Register lock diagnostics command
+  const showLockHolderDisposable = vscode.commands.registerCommand(
+    "coft-smarttime.showLockHolder",
+    async () => {
+      if (coftConfig) {
+        await showLockHolder(coftConfig);
+      } else {
+        vscode.window.showErrorMessage("COFT SmartTime is not initialized");
+      }
+    },
+  );
+
+  // Register preview excluded files command
+  const previewExcludedDisposable = vscode.commands.registerCommand(
+    "coft-smarttime.previewExcludedFiles",
+    async () => {
+      if (storage && configManager) {
+        await previewExcludedFiles(storage, configManager);
+      } else {
+        vscode.window.showErrorMessage("COFT SmartTime is not initialized");
+      }
+    },
+  );
+
+  // Register manual timer commands
+  const startTimerDisposable = vscode.commands.registerCommand(
+    "coft-smarttime.startTimer",
+    async () => {
+      if (storage && manualTimer) {
+        await startManualTimer(storage, manualTimer);
+      } else {
+        vscode.window.showErrorMessage("COFT SmartTime is not initialized");
+      }
+    },
+  );
+
+  const stopTimerDisposable = vscode.commands.registerCommand(
+    "coft-smarttime.stopTimer",
+    async () => {
+      if (!manualTimer) {
+        vscode.window.showErrorMessage("COFT SmartTime is not initialized");
+        return;
+      }
+      const stopped = await manualTimer.stop();
+      if (stopped) {
+        const minutes = Math.round((Date.now() - stopped.startedAt) / 60000);
+        vscode.window.showInformationMessage(
+          `Manual timer stopped: ${stopped.project} (${minutes} min)`,
+        );
+      } else {
+        vscode.window.showInformationMessage("No manual timer is running");
+      }
+    },
+  );
+
+  // Register pause/resume and private mode commands
+  const pauseTrackingDisposable = vscode.commands.registerCommand(
+    "coft-smarttime.pauseTracking",
+    async () => {
+      if (trackingControl) {
+        await pauseTracking(trackingControl);
+      } else {
+        vscode.window.showErrorMessage("COFT SmartTime is not initialized");
+      }
+    },
+  );
+
+  const resumeTrackingDisposable = vscode.commands.registerCommand(
+    "coft-smarttime.resumeTracking",
+    async () => {
+      if (trackingControl) {
+        await trackingControl.resume();
+        vscode.window.showInformationMessage(
+          "COFT SmartTime: Tracking resumed",
+        );
+      } else {
+        vscode.window.showErrorMessage("COFT SmartTime is not initialized");
+      }
+    },
+  );
+
+  const privateModeDisposable = vscode.commands.registerCommand(
+    "coft-smarttime.privateMode",
+    async () => {
+      if (trackingControl) {
+        await trackingControl.startPrivateMode();
+        vscode.window.showInformationMessage(
+          "COFT SmartTime: Private mode on, recording anonymous time until resumed",
+        );
+      } else {
+        vscode.window.showErrorMessage("COFT SmartTime is not initialized");
+      }
+    },
+  );
+
   // Register save time report command (Ctrl+S when webview focused)
   const saveReportDisposable = vscode.commands.registerCommand(
     "coft-smarttime.saveTimeReport",
@@ -92,7 +304,8 @@ export async function activate(context: vscode.ExtensionContext) {
     async (event) => {
       if (event.affectsConfiguration("coft.smarttime")) {
         logger.info("Configuration changed, reinitializing...");
-        shutdown();
+        await flushPendingWork();
+        await shutdown();
         const newDebugEnabled = vscode.workspace
           .getConfiguration("coft.smarttime")
           .get("enableDebugLogs", false);
@@ -103,10 +316,25 @@ export async function activate(context: vscode.ExtensionContext) {
   );
 
   context.subscriptions.push(
+    openDisposable,
+    closeDisposable,
     saveDisposable,
+    changeDisposable,
+    windowStateDisposable,
+    selectionDisposable,
+    visibleRangesDisposable,
+    activeEditorDisposable,
     timeReportDisposable,
     timeSummaryDisposable,
+    failedOperationsDisposable,
     backupDisposable,
+    showLockHolderDisposable,
+    previewExcludedDisposable,
+    startTimerDisposable,
+    stopTimerDisposable,
+    pauseTrackingDisposable,
+    resumeTrackingDisposable,
+    privateModeDisposable,
     saveReportDisposable,
     configChangeDisposable,
   );
@@ -121,12 +349,57 @@ export async function activate(context: vscode.ExtensionContext) {
   logger.info("COFT SmartTime extension activated successfully");
 }
 
-export function deactivate() {
-  shutdown();
+export async function deactivate(): Promise<void> {
+  // Other windows keep counting as active; this one is gone for good
+  if (isTracking() && activityMonitor) {
+    await activityMonitor.windowClosed();
+  }
+  await flushPendingWork();
+  await shutdown();
+  savedContents.clear();
   logger.info("COFT SmartTime extension deactivated");
 }
 
-function shutdown(): void {
+// Writes what this window still holds in memory and requests a last batch;
+// the leader also processes the queue before handing over. A slow commit or
+// a busy lock must not hold up the shutdown, so whatever is left after the
+// timeout stays queued for the next leader
+async function flushPendingWork(): Promise<void> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<boolean>((resolve) => {
+    timer = setTimeout(() => resolve(false), FLUSH_TIMEOUT_MS);
+  });
+  const finished = await Promise.race([runFlush().then(() => true), timeout]);
+  clearTimeout(timer);
+  if (!finished) {
+    logger.info("Pending work not flushed in time, left in the queue");
+  }
+}
+
+async function runFlush(): Promise<void> {
+  try {
+    if (timeReportProvider) {
+      await timeReportProvider.flushPendingOperations();
+    }
+    if (batchProcessor) {
+      await batchProcessor.flush();
+    }
+    if (operationQueueProcessor && leaderElection?.isLeader()) {
+      await operationQueueProcessor.flush();
+    }
+  } catch (error) {
+    logger.error(`Error flushing pending work: ${error}`);
+  }
+}
+
+async function shutdown(): Promise<void> {
+  if (leaderElection) {
+    // Releasing lets another window take over the processors; it is awaited
+    // so the lock is free before a reinit elects again or the host exits
+    const election = leaderElection;
+    leaderElection = null;
+    await election.stop();
+  }
   if (batchProcessor) {
     batchProcessor.stop();
     batchProcessor = null;
@@ -135,10 +408,36 @@ function shutdown(): void {
     operationQueueProcessor.stop();
     operationQueueProcessor = null;
   }
+  if (editThrottle) {
+    editThrottle.clear();
+    editThrottle = null;
+  }
+  if (activityMonitor) {
+    activityMonitor.stop();
+    activityMonitor = null;
+  }
+  if (manualTimer) {
+    manualTimer.dispose();
+    manualTimer = null;
+  }
+  if (trackingControl) {
+    trackingControl.stop();
+    trackingControl = null;
+  }
+  if (statusBarProvider) {
+    statusBarProvider.dispose();
+    statusBarProvider = null;
+  }
   timeReportProvider = null;
   timeSummaryProvider = null;
+  failedOperationsProvider = null;
   storage = null;
-  git = null;
+  if (git) {
+    git.dispose();
+    git = null;
+  }
+  configManager = null;
+  coftConfig = null;
   isEnabled = false;
 }
 
@@ -147,12 +446,16 @@ async function initialize(context: vscode.ExtensionContext): Promise<boolean> {
     const version = context.extension.packageJSON.version;
 
     // Get configuration
-    const configManager = new ConfigManager(logger);
+    configManager = new ConfigManager(logger);
     const config = configManager.getConfig();
+    coftConfig = config;
 
     logger.info(`COFT_ROOT: ${config.root}`);
     logger.info(`COFT_INTERVAL_SECONDS: ${config.intervalSeconds}`);
     logger.info(`COFT_VIEW_GROUP_BY_MINUTES: ${config.viewGroupByMinutes}`);
+    logger.info(`COFT_EDIT_THROTTLE_SECONDS: ${config.editThrottleSeconds}`);
+    logger.info(`COFT_IDLE_THRESHOLD_MINUTES: ${config.idleThresholdMinutes}`);
+    logger.info(`COFT_OUTSIDE_WORKSPACE: ${config.outsideWorkspace}`);
 
     // Initialize storage
     storage = new StorageManager(config, logger);
@@ -166,21 +469,59 @@ async function initialize(context: vscode.ExtensionContext): Promise<boolean> {
     git = new GitManager(config, logger, extensionVersion);
     await git.initialize();
 
-    // Start batch processor
+    // Pause and private mode, shared with other windows through the root
+    trackingControl = new TrackingControl(storage, logger, (state) =>
+      statusBarProvider?.setTrackingState(state),
+    );
+    await trackingControl.start();
+
+    // Edit tracking is disabled when the throttle is 0
+    editThrottle =
+      config.editThrottleSeconds > 0
+        ? new ActivityThrottle(config.editThrottleSeconds * 1000)
+        : null;
+
+    // Start activity monitor (focus changes and idle detection)
+    activityMonitor = new ActivityMonitor(config, storage, logger);
+    activityMonitor.start();
+
+    // Manual timer, shared with other windows and kept across restarts
+    manualTimer = new ManualTimer(config, storage, logger);
+    await manualTimer.restore();
+
+    // Start batch processor; it requests batches once this window leads
     batchProcessor = new BatchProcessor(config, storage, logger);
+    batchProcessor.setLeader(false);
     batchProcessor.start();
 
-    // Start operation queue processor
-    operationQueueProcessor = new OperationQueueProcessor(
+    // Create time report provider
+    timeReportProvider = new TimeReportProvider(config, logger, version);
+
+    // Status bar with today's total, refreshed whenever this window commits a
+    // batch and periodically for batches committed by the leader elsewhere
+    statusBarProvider = new StatusBarProvider(logger, timeReportProvider);
+    statusBarProvider.setTrackingState(trackingControl.getState());
+    statusBarProvider.update();
+
+    // Operation queue processor, run by the leader window only
+    const queueProcessor = new OperationQueueProcessor(
       config,
       git,
       storage,
       logger,
+      () => statusBarProvider?.update(),
     );
-    operationQueueProcessor.start();
-
-    // Create time report provider
-    timeReportProvider = new TimeReportProvider(config, logger, version);
+    operationQueueProcessor = queueProcessor;
+    const windowBatchProcessor = batchProcessor;
+    leaderElection = new LeaderElection(config, logger, (leader) => {
+      windowBatchProcessor.setLeader(leader);
+      if (leader) {
+        queueProcessor.start();
+      } else {
+        queueProcessor.stop();
+      }
+    });
+    await leaderElection.start();
 
     // Create time summary provider
     timeSummaryProvider = new TimeSummaryProvider(
@@ -193,6 +534,9 @@ async function initialize(context: vscode.ExtensionContext): Promise<boolean> {
       },
     );
 
+    // Failed operations view over the backup directories
+    failedOperationsProvider = new FailedOperationsProvider(storage, logger);
+
     isEnabled = true;
     return true;
   } catch (error) {
@@ -201,26 +545,271 @@ async function initialize(context: vscode.ExtensionContext): Promise<boolean> {
   }
 }
 
-async function handleFileSave(document: vscode.TextDocument): Promise<void> {
+function isTracking(): boolean {
+  return isEnabled && trackingControl?.getMode() !== "paused";
+}
+
+async function recordActivity(): Promise<void> {
+  if (isTracking() && activityMonitor) {
+    await activityMonitor.recordActivity();
+  }
+}
+
+async function handleFileActivity(
+  document: vscode.TextDocument,
+  kind: ActivityKind,
+  lineDiff?: LineDiff,
+): Promise<void> {
   try {
-    if (!storage || !git) {
+    if (!storage || !git || !configManager || !coftConfig) {
       return;
     }
 
-    const workspaceFolder = vscode.workspace.getWorkspaceFolder(document.uri);
-    if (!workspaceFolder) {
+    const mode = trackingControl?.getMode() ?? "active";
+    const location = await resolveFileLocation(document, git, coftConfig);
+    if (!location) {
       return;
     }
+    const { directory, relativePath, filterPath, repositoryRoot } = location;
 
-    const workspaceRoot = workspaceFolder.uri.fsPath;
-    const relativePath = path.relative(workspaceRoot, document.uri.fsPath);
-    const gitBranch = await git.getBranch(workspaceFolder);
+    const filter = new FileFilter(configManager.getFilePatterns(document.uri));
+    if (!filter.isTracked(filterPath)) {
+      logger.debug(`Skipping excluded file: ${filterPath}`);
+      return;
+    }
+    if (mode === "private") {
+      // Only the time is kept: no path, branch, language or environment
+      await storage.writePrivateEntry(kind);
+      return;
+    }
+    const gitBranch = repositoryRoot
+      ? await git.getBranch(repositoryRoot)
+      : undefined;
 
-    await storage.writeQueueEntry(workspaceRoot, relativePath, gitBranch);
+    await storage.writeQueueEntry(directory, relativePath, gitBranch, kind, {
+      remote: getRemoteEnvironment(document.uri),
+      languageId: document.languageId,
+      lineDiff,
+    });
   } catch (error) {
-    logger.error(`Error handling file save: ${error}`);
+    logger.error(`Error handling file ${kind}: ${error}`);
     vscode.window.showErrorMessage(
       `COFT SmartTime: Failed to save time entry: ${error}`,
     );
   }
 }
+
+// The extension runs on the UI side, so remote documents keep their
+// vscode-remote URI with the remote authority
+function getRemoteEnvironment(uri: vscode.Uri): RemoteEnvironment | undefined {
+  if (uri.scheme !== "vscode-remote" || !uri.authority) {
+    return undefined;
+  }
+  return {
+    name: vscode.env.remoteName ?? uri.authority.split("+")[0],
+    authority: uri.authority,
+  };
+}
+
+interface FileLocation {
+  // Recorded directory: the file's git repository root when it has one
+  directory: string;
+  relativePath: string;
+  // Path matched against include/exclude patterns (workspace relative)
+  filterPath: string;
+  repositoryRoot: string | null;
+}
+
+async function resolveFileLocation(
+  document: vscode.TextDocument,
+  gitManager: GitManager,
+  config: CoftConfig,
+): Promise<FileLocation | null> {
+  const filePath = document.uri.fsPath;
+  const workspaceFolder = vscode.workspace.getWorkspaceFolder(document.uri);
+
+  // Outside any workspace folder: only real files can be tracked
+  if (
+    !workspaceFolder &&
+    (config.outsideWorkspace === "off" ||
+      !TRACKED_SCHEMES.includes(document.uri.scheme))
+  ) {
+    return null;
+  }
+
+  // The closest repository wins, so submodules, nested repositories and
+  // worktrees are recorded on their own rather than under the outer one.
+  // Remote files are not on this machine, so their repository is unknown.
+  const repositoryRoot =
+    document.uri.scheme === "file" &&
+    (workspaceFolder || config.outsideWorkspace === "repository")
+      ? await gitManager.getRepositoryRoot(path.dirname(filePath))
+      : undefined;
+  const filterPath = workspaceFolder
+    ? path.relative(workspaceFolder.uri.fsPath, filePath)
+    : undefined;
+
+  if (repositoryRoot) {
+    const relativePath = path.relative(repositoryRoot, filePath);
+    return {
+      directory: repositoryRoot,
+      relativePath,
+      filterPath: filterPath ?? relativePath,
+      repositoryRoot,
+    };
+  }
+
+  if (workspaceFolder) {
+    const relativePath = path.relative(workspaceFolder.uri.fsPath, filePath);
+    return {
+      directory: workspaceFolder.uri.fsPath,
+      relativePath,
+      filterPath: relativePath,
+      repositoryRoot: null,
+    };
+  }
+
+  return {
+    directory: LOOSE_FILES_DIRECTORY,
+    relativePath: filePath,
+    filterPath: filePath,
+    repositoryRoot: null,
+  };
+}
+
+function toRecordedFileUri(directoryKey: string, file: string): vscode.Uri {
+  const { directory, remoteAuthority } =
+    parseEnvironmentDirectory(directoryKey);
+  if (remoteAuthority) {
+    return vscode.Uri.from({
+      scheme: "vscode-remote",
+      authority: remoteAuthority,
+      path: path.posix.join(directory, file),
+    });
+  }
+  return vscode.Uri.file(
+    directory === LOOSE_FILES_DIRECTORY ? file : path.join(directory, file),
+  );
+}
+
+async function previewExcludedFiles(
+  storageManager: StorageManager,
+  config: ConfigManager,
+): Promise<void> {
+  const recorded = await storageManager.readRecordedFiles(new Date());
+  const excluded = recorded.filter(({ directory, file }) => {
+    const scope = toRecordedFileUri(directory, file);
+    // Patterns are workspace relative while files are recorded per repository
+    const workspaceFolder = vscode.workspace.getWorkspaceFolder(scope);
+    const filterPath = workspaceFolder
+      ? path.relative(workspaceFolder.uri.fsPath, scope.fsPath)
+      : file;
+    return !new FileFilter(config.getFilePatterns(scope)).isTracked(filterPath);
+  });
+
+  if (excluded.length === 0) {
+    vscode.window.showInformationMessage(
+      `COFT SmartTime: None of the ${recorded.length} file(s) recorded today would be excluded`,
+    );
+    return;
+  }
+
+  await vscode.window.showQuickPick(
+    excluded.map(({ directory, file }) => ({
+      label: file,
+      description: directory,
+    })),
+    {
+      placeHolder: `${excluded.length} of ${recorded.length} file(s) recorded today would be excluded`,
+      matchOnDescription: true,
+    },
+  );
+}
+
+async function startManualTimer(
+  storageManager: StorageManager,
+  timer: ManualTimer,
+): Promise<void> {
+  const projects = await storageManager.projectRepository.readProjects();
+  const names = new Set<string>();
+  for (const [branch, value] of Object.entries(projects)) {
+    const projectNames =
+      branch === "_unbound" && Array.isArray(value)
+        ? (value as string[])
+        : Object.values(value ?? {});
+    for (const name of projectNames) {
+      if (name) {
+        names.add(name);
+      }
+    }
+  }
+
+  const otherProject = "Other project...";
+  const picked = await vscode.window.showQuickPick(
+    [...[...names].sort(), otherProject],
+    { placeHolder: "Project to log time against" },
+  );
+  if (!picked) {
+    return;
+  }
+  const project =
+    picked === otherProject
+      ? (await vscode.window.showInputBox({ prompt: "Project name" }))?.trim()
+      : picked;
+  if (!project) {
+    return;
+  }
+
+  const comment = await vscode.window.showInputBox({
+    prompt: `What are you working on for ${project}?`,
+    placeHolder: "Meeting, review, planning...",
+  });
+  if (comment === undefined) {
+    return;
+  }
+
+  await timer.start(project, comment.trim());
+  vscode.window.showInformationMessage(`Manual timer started: ${project}`);
+}
+
+async function showLockHolder(config: CoftConfig): Promise<void> {
+  const lock = new FileLock(config.data, logger);
+  const holder = await lock.readHolder();
+  if (!holder) {
+    vscode.window.showInformationMessage(
+      "COFT SmartTime: The data lock is free",
+    );
+    return;
+  }
+
+  const thisWindow =
+    holder.hostname === os.hostname() && holder.pid === process.pid
+      ? " (this window)"
+      : "";
+  const lease = lock.isStale(holder)
+    ? "stale, the next processor takes it over"
+    : `lease until ${new Date(holder.leaseExpiresAt).toLocaleTimeString()}`;
+  const message = `Lock held by ${lock.describeHolder(holder)}${thisWindow} since ${new Date(holder.acquiredAt).toLocaleTimeString()}, last heartbeat ${new Date(holder.heartbeatAt).toLocaleTimeString()}; ${lease}`;
+  logger.info(message);
+  vscode.window.showInformationMessage(`COFT SmartTime: ${message}`);
+}
+
+async function pauseTracking(control: TrackingControl): Promise<void> {
+  const durations = [
+    { label: "15 minutes", minutes: 15 },
+    { label: "30 minutes", minutes: 30 },
+    { label: "1 hour", minutes: 60 },
+    { label: "2 hours", minutes: 120 },
+    { label: "Until resumed", minutes: undefined },
+  ];
+  const picked = await vscode.window.showQuickPick(durations, {
+    placeHolder: "Pause tracking in all windows for",
+  });
+  if (!picked) {
+    return;
+  }
+  await control.pause(picked.minutes);
+  vscode.window.showInformationMessage(
+    `COFT SmartTime: Tracking paused ${picked.minutes ? `for ${picked.label}` : "until resumed"}`,
+  );
+}
@@ -0,0 +1,255 @@
+import * as vscode from "vscode";
+import { StorageManager } from "../storage/storage";
+import { OperationRequest } from "../types/operation";
+import { Logger } from "../utils/logger";
+
+// A backed-up operation request or a queue_backup file
+interface FailedItem {
+  source: "operation" | "queue";
+  file: string;
+  type: string;
+  target: string;
+  timestamp: number;
+  error: string;
+  // One line per failed attempt, shown when hovering the error
+  history: string;
+}
+
+export class FailedOperationsProvider {
+  private storage: StorageManager;
+  private logger: Logger;
+  private panel: vscode.WebviewPanel | null = null;
+  private items: FailedItem[] = [];
+
+  constructor(storage: StorageManager, logger: Logger) {
+    this.storage = storage;
+    this.logger = logger;
+  }
+
+  async show(context: vscode.ExtensionContext): Promise<void> {
+    if (this.panel) {
+      this.panel.reveal();
+      await this.updateView();
+      return;
+    }
+
+    this.panel = vscode.window.createWebviewPanel(
+      "coftFailedOperations",
+      "COFT Failed Operations",
+      vscode.ViewColumn.One,
+      {
+        enableScripts: true,
+      },
+    );
+
+    this.panel.onDidDispose(() => {
+      this.panel = null;
+    });
+
+    this.panel.webview.onDidReceiveMessage(
+      async (message) => {
+        await this.handleMessage(message);
+      },
+      undefined,
+      context.subscriptions,
+    );
+
+    await this.updateView();
+  }
+
+  private async handleMessage(message: any): Promise<void> {
+    if (message.command === "refresh") {
+      await this.updateView();
+      return;
+    }
+
+    // Only act on files the view listed
+    const item = this.items.find(
+      (i) => i.source === message.source && i.file === message.file,
+    );
+    if (!item) {
+      return;
+    }
+
+    try {
+      switch (message.command) {
+        case "retry":
+          await this.retry(item);
+          break;
+        case "discard":
+          await this.discard(item);
+          break;
+        case "open":
+          await vscode.window.showTextDocument(
+            vscode.Uri.file(this.getPath(item)),
+          );
+          return;
+      }
+    } catch (error) {
+      this.logger.error(`Error handling failed ${item.file}: ${error}`);
+      vscode.window.showErrorMessage(
+        `COFT SmartTime: Unable to ${message.command} ${item.file}: ${error}`,
+      );
+    }
+    await this.updateView();
+  }
+
+  private async retry(item: FailedItem): Promise<void> {
+    if (item.source === "operation") {
+      await this.storage.operationRepository.retryFailedOperation(item.file);
+      this.logger.info(`Failed operation requeued: ${item.file}`);
+    } else {
+      await this.storage.restoreQueueBackupFile(item.file);
+      this.logger.info(`Queue backup file requeued: ${item.file}`);
+    }
+  }
+
+  private async discard(item: FailedItem): Promise<void> {
+    const discardAction = "Discard";
+    const answer = await vscode.window.showWarningMessage(
+      `Discard ${item.type} ${item.file}? It cannot be retried afterwards.`,
+      { modal: true },
+      discardAction,
+    );
+    if (answer !== discardAction) {
+      return;
+    }
+    if (item.source === "operation") {
+      await this.storage.operationRepository.discardFailedOperation(item.file);
+    } else {
+      await this.storage.discardQueueBackupFile(item.file);
+    }
+    this.logger.info(`Failed ${item.source} discarded: ${item.file}`);
+  }
+
+  private getPath(item: FailedItem): string {
+    return item.source === "operation"
+      ? this.storage.operationRepository.getBackupPath(item.file)
+      : this.storage.getQueueBackupPath(item.file);
+  }
+
+  private async loadItems(): Promise<FailedItem[]> {
+    const operations =
+      await this.storage.operationRepository.readFailedOperations();
+    const queueFiles = await this.storage.readQueueBackupFiles();
+
+    const items: FailedItem[] = operations.map(
+      ({ file, request, failure }) => ({
+        source: "operation",
+        file,
+        type: request.type,
+        target: this.describeTarget(request),
+        timestamp: failure?.failedAt ?? this.getQueuedAt(file),
+        error: failure
+          ? `${failure.error} (${failure.attempts} attempts)`
+          : "Not recorded",
+        history: (failure?.history ?? [])
+          .map(
+            (attempt) =>
+              `${new Date(attempt.at).toLocaleString()}: ${attempt.error}`,
+          )
+          .join("\n"),
+      }),
+    );
+    for (const { file, entryCount, timestamp } of queueFiles) {
+      items.push({
+        source: "queue",
+        file,
+        type: "queue",
+        target: `${entryCount} activity ${entryCount === 1 ? "entry" : "entries"}`,
+        timestamp,
+        error: "Batch processing failed",
+        history: "",
+      });
+    }
+    return items.sort((a, b) => b.timestamp - a.timestamp);
+  }
+
+  private describeTarget(request: OperationRequest): string {
+    switch (request.type) {
+      case "timereport":
+      case "projects":
+        return request.file;
+      case "projectChange":
+        return request.action === "addUnbound"
+          ? request.project || ""
+          : `${request.branch}/${request.directory}`;
+      default:
+        return "";
+    }
+  }
+
+  // Request files are named <timestamp>_<random>.json
+  private getQueuedAt(file: string): number {
+    const match = file.match(/^(\d+)_/);
+    return match ? parseInt(match[1], 10) : 0;
+  }
+
+  private async updateView(): Promise<void> {
+    if (!this.panel) {
+      return;
+    }
+    this.items = await this.loadItems();
+    this.panel.webview.html = this.getHtmlContent(this.items);
+  }
+
+  private getHtmlContent(items: FailedItem[]): string {
+    const rows = items
+      .map((item) => {
+        const data = `data-source="${item.source}" data-file="${this.escapeHtml(item.file)}"`;
+        const time = item.timestamp
+          ? new Date(item.timestamp).toLocaleString()
+          : "";
+        return `<tr><td>${this.escapeHtml(item.type)}</td><td>${this.escapeHtml(item.target)}</td><td>${time}</td><td class="error" title="${this.escapeHtml(item.history)}">${this.escapeHtml(item.error)}</td><td class="actions"><button data-command="retry" ${data}>Retry</button><button data-command="discard" ${data}>Discard</button><button data-command="open" ${data}>Open JSON</button></td></tr>`;
+      })
+      .join("");
+    const content =
+      items.length > 0
+        ? `<table>
+        <thead><tr><th>Type</th><th>Target</th><th>Time</th><th>Last Error</th><th></th></tr></thead>
+        <tbody>${rows}</tbody>
+    </table>`
+        : `<p>No failed operations.</p>`;
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>COFT Failed Operations</title>
+    <style>
+        body { font-family: var(--vscode-font-family); padding: 20px; }
+        button { background-color: var(--vscode-button-background); color: var(--vscode-button-foreground); border: none; padding: 4px 10px; margin-right: 4px; cursor: pointer; }
+        table { width: 100%; border-collapse: collapse; margin-top: 20px; }
+        th, td { text-align: left; padding: 8px; border-bottom: 1px solid var(--vscode-panel-border); }
+        th { background-color: var(--vscode-editor-lineHighlightBackground); }
+        .error { color: var(--vscode-errorForeground); }
+        .actions { white-space: nowrap; }
+    </style>
+</head>
+<body>
+    <h1>Failed Operations</h1>
+    <button id="refresh">Refresh</button>
+    ${content}
+    <script>
+        const vscode = acquireVsCodeApi();
+        document.getElementById('refresh').addEventListener('click', () => vscode.postMessage({ command: 'refresh' }));
+        document.querySelectorAll('button[data-command]').forEach(button => {
+            button.addEventListener('click', () => {
+                vscode.postMessage({ command: button.dataset.command, source: button.dataset.source, file: button.dataset.file });
+            });
+        });
+    </script>
+</body>
+</html>`;
+  }
+
+  private escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;")
+      .replace(/'/g, "&#039;");
+  }
+}
@@ -1,3 +1,5 @@
+export { FailedOperationsProvider } from "./failedOperations";
+export { StatusBarProvider } from "./statusBar";
 export { TimeReportProvider } from "./timeReport";
 export { TimeReportViewModel } from "./timeReportViewModel";
 export { TimeSummaryProvider } from "./timeSummary";
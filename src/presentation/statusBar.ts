@@ -0,0 +1,91 @@
+import * as vscode from "vscode";
+import { TrackingState } from "../storage/trackingStateRepository";
+import { Logger } from "../utils/logger";
+import { TimeReportProvider } from "./timeReport";
+import { TodayStatus } from "./types";
+
+export class StatusBarProvider {
+  private logger: Logger;
+  private timeReportProvider: TimeReportProvider;
+  private item: vscode.StatusBarItem;
+  private timer: NodeJS.Timeout | null = null;
+  private refreshIntervalMs: number = 60000;
+  private updating: Promise<void> | null = null;
+  private pendingUpdate: boolean = false;
+  private status: TodayStatus = { totalHours: "", project: "" };
+  private trackingState: TrackingState = { mode: "active", changedAt: 0 };
+
+  constructor(logger: Logger, timeReportProvider: TimeReportProvider) {
+    this.logger = logger;
+    this.timeReportProvider = timeReportProvider;
+    this.item = vscode.window.createStatusBarItem(
+      vscode.StatusBarAlignment.Left,
+    );
+    this.item.command = "coft-smarttime.showTimeReport";
+    this.render();
+    this.item.show();
+    // Only the leader window hears about its commits; the others pick up
+    // new batches from the data directory on this interval
+    this.timer = setInterval(() => this.update(), this.refreshIntervalMs);
+  }
+
+  // Batches can commit in quick succession; updates never overlap and the
+  // last request always runs against the newest data
+  update(): Promise<void> {
+    if (this.updating) {
+      this.pendingUpdate = true;
+      return this.updating;
+    }
+    this.updating = this.refresh().finally(() => {
+      this.updating = null;
+      if (this.pendingUpdate) {
+        this.pendingUpdate = false;
+        this.update();
+      }
+    });
+    return this.updating;
+  }
+
+  setTrackingState(state: TrackingState): void {
+    this.trackingState = state;
+    this.render();
+  }
+
+  dispose(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.item.dispose();
+  }
+
+  private async refresh(): Promise<void> {
+    try {
+      this.status = await this.timeReportProvider.getTodayStatus();
+      this.render();
+    } catch (error) {
+      this.logger.error(`Error updating status bar: ${error}`);
+    }
+  }
+
+  private render(): void {
+    const total = this.status.totalHours || "0m";
+    const { mode, pausedUntil } = this.trackingState;
+    if (mode === "paused") {
+      const until = pausedUntil
+        ? ` until ${new Date(pausedUntil).toLocaleTimeString(undefined, { hour: "2-digit", minute: "2-digit" })}`
+        : "";
+      this.item.text = `$(debug-pause) Paused${until} · ${total}`;
+      this.item.tooltip = "COFT SmartTime: tracking is paused in all windows";
+      return;
+    }
+    const icon = mode === "private" ? "$(eye-closed)" : "$(clock)";
+    this.item.text = this.status.project
+      ? `${icon} ${total} · ${this.status.project}`
+      : `${icon} ${total}`;
+    this.item.tooltip =
+      mode === "private"
+        ? "COFT SmartTime: private mode, recording anonymous time only"
+        : "COFT SmartTime: today's tracked time";
+  }
+}
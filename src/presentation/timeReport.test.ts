@@ -6,6 +6,7 @@ import * as os from "os";
 import { TimeReportProvider } from "./timeReport";
 import { CoftConfig } from "../application/config";
 import { Logger } from "../utils/logger";
+import { MANUAL_BRANCH } from "../storage/storage";
 
 suite("TimeReport Test Suite", () => {
   let testRoot: string;
@@ -33,6 +34,9 @@ suite("TimeReport Test Suite", () => {
       exportDir: "",
       exportAgeDays: 90,
       startOfWeek: "auto",
+      editThrottleSeconds: 30,
+      idleThresholdMinutes: 5,
+      outsideWorkspace: "repository",
     };
 
     await fs.mkdir(testConfig.queue, { recursive: true });
@@ -55,6 +59,40 @@ suite("TimeReport Test Suite", () => {
     }
   });
 
+  test("waitForFinalResults skips results of attempts that are retried", async () => {
+    const repository = (provider as any).operationRepository;
+    await repository.recordResult("1_a.json", "retrying", "Error: busy");
+    setTimeout(() => repository.recordResult("1_a.json", "committed"), 300);
+
+    const results = await (provider as any).waitForFinalResults(
+      ["1_a", "1_b"],
+      [null, { id: "1_b", status: "failed", completedAt: 1, error: "x" }],
+    );
+
+    assert.strictEqual(results[0].status, "committed");
+    assert.strictEqual(results[1].status, "failed");
+  });
+
+  test("retryFailedSave requeues the backed-up requests", async () => {
+    await fs.mkdir(testConfig.operationQueueBackup, { recursive: true });
+    await fs.writeFile(
+      path.join(testConfig.operationQueueBackup, "1_a.json"),
+      JSON.stringify({ type: "timereport", file: "reports/x.json", body: {} }),
+      "utf-8",
+    );
+    const reported: string[][] = [];
+    (provider as any).reportSaveResult = async (ids: string[]) => {
+      reported.push(ids);
+    };
+
+    await (provider as any).retryFailedSave(["1_a", "1_superseded"]);
+
+    assert.deepStrictEqual(await fs.readdir(testConfig.operationQueue), [
+      "1_a.json",
+    ]);
+    assert.deepStrictEqual(reported, [["1_a"]]);
+  });
+
   test("loadProjects returns empty object when no file exists", async () => {
     const projects = await provider.loadProjects();
     assert.deepStrictEqual(projects, {});
@@ -126,6 +164,30 @@ suite("TimeReport Test Suite", () => {
     );
   });
 
+  test("lookupProject does not fall back across repositories for default branches", () => {
+    const projects = {
+      main: { "/repo/outer": "Outer" },
+    };
+    assert.strictEqual(
+      (provider as any).lookupProject(projects, "main", "/repo/outer/sub"),
+      "",
+    );
+  });
+
+  test("lookupProject finds mappings of a workspace folder inside the repository", () => {
+    const projects = {
+      main: { "/repo/app": "App" },
+    };
+    assert.strictEqual(
+      (provider as any).lookupProject(projects, "main", "/repo"),
+      "App",
+    );
+    assert.strictEqual(
+      (provider as any).lookupProject(projects, "main", "/repository"),
+      "",
+    );
+  });
+
   test("lookupProject returns empty string for unknown branch", () => {
     const projects = {
       feature: { "/project-a": "Alpha" },
@@ -185,6 +247,93 @@ suite("TimeReport Test Suite", () => {
     assert.strictEqual(report.entries[0].project, "Alpha");
   });
 
+  test("assignBranches prefers the entry with the most changed lines", () => {
+    const report = {
+      date: new Date().toISOString(),
+      entries: [
+        {
+          key: "09:00",
+          branch: "main",
+          directory: "/project",
+          files: ["a.ts", "b.ts", "c.ts"],
+          fileDetails: [],
+          comment: "",
+          project: "",
+          assignedBranch: "",
+          linesChanged: 3,
+        },
+        {
+          key: "09:00",
+          branch: "develop",
+          directory: "/project",
+          files: ["x.ts"],
+          fileDetails: [],
+          comment: "",
+          project: "",
+          assignedBranch: "",
+          linesChanged: 200,
+        },
+      ],
+    };
+
+    (provider as any).assignBranches(report, {});
+
+    assert.strictEqual(report.entries.length, 1);
+    assert.strictEqual(report.entries[0].branch, "develop");
+  });
+
+  test("assignBranches keeps manual entries over file-based entries", () => {
+    const report = {
+      date: new Date().toISOString(),
+      entries: [
+        {
+          key: "09:00",
+          branch: "main",
+          directory: "/project",
+          files: ["a.ts", "b.ts"],
+          fileDetails: [
+            { file: "a.ts", timestamp: 1000 },
+            { file: "b.ts", timestamp: 1001 },
+          ],
+          comment: "",
+          project: "",
+          assignedBranch: "",
+        },
+        {
+          key: "09:00",
+          branch: "_manual",
+          directory: "",
+          files: [],
+          fileDetails: [{ file: "", timestamp: 1002, kind: "manual" }],
+          comment: "Planning",
+          project: "Beta",
+          assignedBranch: "_manual",
+          manual: true,
+        },
+        {
+          key: "09:15",
+          branch: "main",
+          directory: "/project",
+          files: ["a.ts"],
+          fileDetails: [{ file: "a.ts", timestamp: 2000 }],
+          comment: "",
+          project: "",
+          assignedBranch: "",
+        },
+      ],
+    };
+
+    const projects = { main: { "/project": "Alpha" } };
+    (provider as any).assignBranches(report, projects, true);
+
+    assert.strictEqual(report.entries.length, 2);
+    assert.strictEqual(report.entries[0].key, "09:00");
+    assert.strictEqual(report.entries[0].manual, true);
+    assert.strictEqual(report.entries[0].project, "Beta");
+    assert.strictEqual(report.entries[1].key, "09:15");
+    assert.strictEqual(report.entries[1].project, "Alpha");
+  });
+
   test("assignBranches handles different time slots independently", () => {
     const report = {
       date: new Date().toISOString(),
@@ -895,6 +1044,113 @@ suite("TimeReport Test Suite", () => {
     assert.strictEqual(overview.endOfDay, "17:30");
   });
 
+  test("computeOverview excludes idle slots from worked time", () => {
+    const report = {
+      date: "2026-02-16",
+      entries: [
+        {
+          key: "09:00",
+          branch: "main",
+          directory: "/project",
+          files: ["a.ts"],
+          fileDetails: [{ file: "a.ts", timestamp: Date.now() }],
+          comment: "",
+          project: "",
+          assignedBranch: "main",
+        },
+        {
+          key: "09:15",
+          branch: "main",
+          directory: "/project",
+          files: ["b.ts"],
+          fileDetails: [{ file: "b.ts", timestamp: Date.now() }],
+          comment: "",
+          project: "",
+          assignedBranch: "main",
+          idle: true,
+        },
+      ],
+    };
+
+    const overview = (provider as any).computeOverview(report, {});
+    assert.strictEqual(overview.groups[0].totalTimeSlots, 1);
+    assert.strictEqual(overview.totalHours, "15m");
+  });
+
+  test("assignBranches keeps one manual row per slot, for the last timer", () => {
+    const manualRow = (project: string, timestamp: number) => ({
+      key: "09:00",
+      branch: MANUAL_BRANCH,
+      directory: "",
+      files: [],
+      fileDetails: [{ file: "", timestamp, kind: "manual" }],
+      comment: "",
+      project,
+      assignedBranch: MANUAL_BRANCH,
+      manual: true,
+    });
+    const nine = new Date(2026, 1, 16, 9, 0).getTime();
+    const report = {
+      date: "2026-02-16",
+      entries: [
+        manualRow("Alpha", nine),
+        manualRow("Beta", nine + 5 * 60 * 1000),
+      ],
+    };
+
+    (provider as any).assignBranches(report, {});
+    assert.deepStrictEqual(
+      report.entries.map((e: any) => e.project),
+      ["Beta"],
+    );
+    const overview = (provider as any).computeOverview(report, {});
+    assert.strictEqual(overview.totalHours, "15m");
+  });
+
+  test("computeOverview keeps the same path on different environments apart", () => {
+    const entry = (key: string, directory: string) => ({
+      key,
+      branch: "main",
+      directory,
+      files: ["a.ts"],
+      fileDetails: [{ file: "a.ts", timestamp: Date.now() }],
+      comment: "",
+      project: "",
+      assignedBranch: "main",
+    });
+    const report = {
+      date: "2026-02-16",
+      entries: [
+        entry("09:00", "[ssh-remote+build]/project"),
+        entry("09:15", "/project"),
+        entry("09:30", "/project"),
+      ],
+    };
+
+    const overview = (provider as any).computeOverview(report, {});
+    assert.strictEqual(overview.entries.length, 2);
+    assert.strictEqual(overview.entries[0].environment, "Local");
+    assert.strictEqual(overview.entries[0].timeSlots, 2);
+    assert.strictEqual(overview.entries[1].environment, "SSH: build");
+    assert.strictEqual(overview.entries[1].timeSlots, 1);
+  });
+
+  test("computeOverview reports idle time from activity events", () => {
+    const blur = new Date(2026, 1, 16, 12, 0).getTime();
+    const focus = new Date(2026, 1, 16, 12, 45).getTime();
+    const report = {
+      date: "2026-02-16",
+      entries: [],
+      activityEvents: [
+        { kind: "blur", timestamp: blur },
+        { kind: "focus", timestamp: focus },
+      ],
+    };
+
+    const overview = (provider as any).computeOverview(report, {});
+    assert.strictEqual(overview.idleTime, "45m");
+  });
+
   test("computeOverview falls back to computed values when saved values are absent", () => {
     const now = Date.now();
     const report = {
@@ -1435,6 +1691,233 @@ suite("TimeReport Test Suite", () => {
     }
   });
 
+  test("loadTimeReport fills slots from edit entries without saves", async () => {
+    const now = new Date();
+    now.setHours(10, 5, 0, 0);
+    (provider as any).currentDate = now;
+
+    const batchesDir = path.join(testConfig.data, "batches");
+    const batch = {
+      feature: {
+        "/project": [{ File: "a.ts", Timestamp: now.getTime(), Kind: "edit" }],
+      },
+    };
+    await fs.writeFile(
+      path.join(batchesDir, `batch_${now.getTime()}_edit.json`),
+      JSON.stringify(batch),
+      "utf-8",
+    );
+
+    const report = await (provider as any).loadTimeReport();
+    const entry = report.entries.find((e: any) => e.key === "10:00");
+    assert.ok(entry, "Edit entry should fill the time slot");
+    assert.strictEqual(entry.fileDetails[0].kind, "edit");
+  });
+
+  test("loadTimeReport upgrades edit detail to save for the same file", async () => {
+    const now = new Date();
+    now.setHours(10, 5, 0, 0);
+    (provider as any).currentDate = now;
+
+    const batchesDir = path.join(testConfig.data, "batches");
+    const batch = {
+      feature: {
+        "/project": [
+          { File: "a.ts", Timestamp: now.getTime(), Kind: "edit" },
+          { File: "a.ts", Timestamp: now.getTime() + 60000, Kind: "save" },
+        ],
+      },
+    };
+    await fs.writeFile(
+      path.join(batchesDir, `batch_${now.getTime()}_mixed.json`),
+      JSON.stringify(batch),
+      "utf-8",
+    );
+
+    const report = await (provider as any).loadTimeReport();
+    const entry = report.entries.find((e: any) => e.key === "10:00");
+    assert.strictEqual(entry.fileDetails.length, 1);
+    assert.strictEqual(entry.fileDetails[0].kind, "save");
+  });
+
+  test("loadTimeReport collects the languages of a slot", async () => {
+    const now = new Date();
+    now.setHours(10, 5, 0, 0);
+    (provider as any).currentDate = now;
+
+    const batchesDir = path.join(testConfig.data, "batches");
+    const batch = {
+      feature: {
+        "/project": [
+          { File: "main.tf", Timestamp: now.getTime(), Language: "terraform" },
+          { File: "a.yaml", Timestamp: now.getTime() + 1000, Language: "yaml" },
+          { File: "b.yaml", Timestamp: now.getTime() + 2000, Language: "yaml" },
+        ],
+      },
+    };
+    await fs.writeFile(
+      path.join(batchesDir, `batch_${now.getTime()}_languages.json`),
+      JSON.stringify(batch),
+      "utf-8",
+    );
+
+    const report = await (provider as any).loadTimeReport();
+    const entry = report.entries.find((e: any) => e.key === "10:00");
+    assert.deepStrictEqual(entry.languages, ["terraform", "yaml"]);
+    assert.strictEqual(entry.fileDetails[0].languageId, "terraform");
+  });
+
+  test("loadTimeReport merges manual timer entries into one row per slot", async () => {
+    const now = new Date();
+    now.setHours(10, 5, 0, 0);
+    (provider as any).currentDate = now;
+
+    const batchesDir = path.join(testConfig.data, "batches");
+    const manual = {
+      Timestamp: now.getTime(),
+      Kind: "manual",
+      Project: "Alpha",
+      Comment: "Planning",
+    };
+    const batch = {
+      _manual: {
+        "": [manual, { ...manual, Timestamp: now.getTime() + 60000 }],
+      },
+      feature: {
+        "/project": [{ File: "a.ts", Timestamp: now.getTime() }],
+      },
+    };
+    await fs.writeFile(
+      path.join(batchesDir, `batch_${now.getTime()}_manual.json`),
+      JSON.stringify(batch),
+      "utf-8",
+    );
+
+    const report = await (provider as any).loadTimeReport();
+    const manualEntries = report.entries.filter((e: any) => e.manual);
+    assert.strictEqual(manualEntries.length, 1);
+    assert.strictEqual(manualEntries[0].key, "10:00");
+    assert.strictEqual(manualEntries[0].project, "Alpha");
+    assert.strictEqual(manualEntries[0].comment, "Planning");
+    assert.deepStrictEqual(manualEntries[0].files, []);
+  });
+
+  test("getTodayStatus reports the total and the current slot's project", async () => {
+    const now = new Date();
+    now.setHours(10, 20, 0, 0);
+
+    const batchesDir = path.join(testConfig.data, "batches");
+    const at = (hours: number, minutes: number) =>
+      new Date(now).setHours(hours, minutes, 0, 0);
+    const batch = {
+      develop: {
+        "/project": [{ File: "a.ts", Timestamp: at(9, 50) }],
+      },
+      feature: {
+        "/project": [
+          { File: "b.ts", Timestamp: at(10, 5) },
+          { File: "c.ts", Timestamp: at(10, 16) },
+        ],
+      },
+    };
+    await fs.writeFile(
+      path.join(batchesDir, `batch_${at(9, 50)}_status.json`),
+      JSON.stringify(batch),
+      "utf-8",
+    );
+    await fs.writeFile(
+      path.join(testConfig.data, "projects.json"),
+      JSON.stringify({
+        develop: { "/project": "Alpha" },
+        feature: { "/project": "Beta" },
+      }),
+      "utf-8",
+    );
+
+    const status = await provider.getTodayStatus(now);
+    assert.strictEqual(status.totalHours, "45m");
+    assert.strictEqual(status.project, "Beta");
+    // The webview's view model is left alone
+    assert.strictEqual((provider as any).currentReport, null);
+  });
+
+  test("loadTimeReport fills slots with anonymous private time", async () => {
+    const now = new Date();
+    now.setHours(10, 5, 0, 0);
+    (provider as any).currentDate = now;
+
+    const batchesDir = path.join(testConfig.data, "batches");
+    const batch = {
+      _private: {
+        "": [
+          { File: "", Timestamp: now.getTime(), Kind: "save" },
+          { File: "", Timestamp: now.getTime() + 60000, Kind: "edit" },
+        ],
+      },
+    };
+    await fs.writeFile(
+      path.join(batchesDir, `batch_${now.getTime()}_private.json`),
+      JSON.stringify(batch),
+      "utf-8",
+    );
+
+    const report = await (provider as any).loadTimeReport();
+    assert.strictEqual(report.entries.length, 1);
+    assert.strictEqual(report.entries[0].key, "10:00");
+    assert.strictEqual(report.entries[0].branch, "_private");
+    assert.deepStrictEqual(report.entries[0].files, []);
+  });
+
+  test("loadTimeReport adds up the line changes of a slot", async () => {
+    const now = new Date();
+    now.setHours(10, 5, 0, 0);
+    (provider as any).currentDate = now;
+
+    const batchesDir = path.join(testConfig.data, "batches");
+    const batch = {
+      feature: {
+        "/project": [
+          { File: "a.ts", Timestamp: now.getTime(), Added: 10, Removed: 2 },
+          { File: "a.ts", Timestamp: now.getTime() + 1000, Added: 1 },
+          { File: "b.ts", Timestamp: now.getTime() + 2000, Removed: 4 },
+        ],
+      },
+    };
+    await fs.writeFile(
+      path.join(batchesDir, `batch_${now.getTime()}_lines.json`),
+      JSON.stringify(batch),
+      "utf-8",
+    );
+
+    const report = await (provider as any).loadTimeReport();
+    const entry = report.entries.find((e: any) => e.key === "10:00");
+    assert.strictEqual(entry.linesChanged, 17);
+    assert.strictEqual(entry.fileDetails[0].linesAdded, 11);
+    assert.strictEqual(entry.fileDetails[0].linesRemoved, 2);
+  });
+
+  test("loadTimeReport treats batch entries without kind as saves", async () => {
+    const now = new Date();
+    now.setHours(10, 5, 0, 0);
+    (provider as any).currentDate = now;
+
+    const batchesDir = path.join(testConfig.data, "batches");
+    const batch = {
+      feature: {
+        "/project": [{ File: "a.ts", Timestamp: now.getTime() }],
+      },
+    };
+    await fs.writeFile(
+      path.join(batchesDir, `batch_${now.getTime()}_legacy.json`),
+      JSON.stringify(batch),
+      "utf-8",
+    );
+
+    const report = await (provider as any).loadTimeReport();
+    const entry = report.entries.find((e: any) => e.key === "10:00");
+    assert.strictEqual(entry.fileDetails[0].kind, "save");
+  });
+
   test("resetViewModel clears cached data", async () => {
     const now = new Date();
     const timestamp = now.getTime();
@@ -1763,6 +2246,15 @@ suite("TimeReport Test Suite", () => {
     );
   });
 
+  test("webview gets the default branches for its project lookup", () => {
+    const report = { date: new Date().toISOString(), entries: [] };
+    const overview = (provider as any).computeOverview(report, {});
+    const html = (provider as any).getHtmlContent(report, overview, {});
+    assert.ok(
+      html.includes('const defaultBranches = ["main","master","no-branch"];'),
+    );
+  });
+
   test("handleMessage copyRow creates new entry above", async () => {
     const now = new Date();
     const report = {
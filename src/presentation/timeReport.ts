@@ -4,8 +4,11 @@ import * as fs from "fs";
 import * as os from "os";
 import { CoftConfig } from "../application/config";
 import { OperationRepository } from "../storage/operationRepository";
+import { OperationResult } from "../types/operation";
 import { OperationQueueWriter } from "../application/operationQueueWriter";
 import { BatchService } from "../services/batchService";
+import { ActivityService } from "../services/activityService";
+import { LanguageService } from "../services/languageService";
 import { TimeEntry, TimeReport } from "../storage/batchRepository";
 import {
   TimeReportRepository,
@@ -13,17 +16,30 @@ import {
   SavedTimeReport,
 } from "../storage/timeReportRepository";
 import { ProjectRepository, ProjectMap } from "../storage/projectRepository";
+import {
+  describeEnvironment,
+  formatEnvironmentDirectory,
+  LOCAL_ENVIRONMENT,
+  parseEnvironmentDirectory,
+} from "../utils/environment";
+import { MANUAL_BRANCH } from "../storage/storage";
 import { Logger } from "../utils/logger";
 import {
   OverviewData,
   QueuedOperation,
   ProjectGroup,
   OverviewEntry,
+  TodayStatus,
 } from "./types";
 import { TimeReportViewModel } from "./timeReportViewModel";
 import template from "./timeReportTemplate.html";
 
 const DEFAULT_BRANCHES = ["main", "master", "no-branch"];
+const MANUAL_LABEL = "Manual";
+// How long a save waits for its commit before reporting it as pending
+const SAVE_RESULT_TIMEOUT_MS = 15000;
+// A pending or retried commit is still followed up, past the retry delays
+const COMMIT_RESULT_TIMEOUT_MS = 10 * 60 * 1000;
 
 export class TimeReportProvider {
   private config: CoftConfig;
@@ -41,6 +57,8 @@ export class TimeReportProvider {
   private projectRepository: ProjectRepository;
   private operationRepository: OperationRepository;
   private batchService: BatchService;
+  private activityService: ActivityService;
+  private languageService: LanguageService;
   private viewModelInstance: TimeReportViewModel;
 
   constructor(config: CoftConfig, logger: Logger, version: string) {
@@ -52,6 +70,8 @@ export class TimeReportProvider {
     this.projectRepository = new ProjectRepository(config, logger);
     this.operationRepository = new OperationRepository(config, logger);
     this.batchService = new BatchService(config, logger);
+    this.activityService = new ActivityService(config);
+    this.languageService = new LanguageService(config);
     this.viewModelInstance = new TimeReportViewModel(config, logger);
   }
 
@@ -71,8 +91,24 @@ export class TimeReportProvider {
     if (projects[branch] && projects[branch][directory]) {
       return projects[branch][directory];
     }
-    // 2. Fallback: same branch in any other directory
-    if (projects[branch]) {
+    // 1b. Mappings made before files were recorded per repository are keyed
+    // by the workspace folder, which may be a subfolder of the repository
+    if (projects[branch] && path.isAbsolute(directory)) {
+      for (const dir of Object.keys(projects[branch])) {
+        const relative = path.relative(directory, dir);
+        if (
+          path.isAbsolute(dir) &&
+          !relative.startsWith("..") &&
+          !path.isAbsolute(relative) &&
+          projects[branch][dir]
+        ) {
+          return projects[branch][dir];
+        }
+      }
+    }
+    // 2. Fallback: same branch in any other directory. Default branches exist
+    // in every repository, so they never borrow another repository's project
+    if (projects[branch] && !DEFAULT_BRANCHES.includes(branch)) {
       const dirs = Object.keys(projects[branch]);
       if (dirs.length > 0) {
         return projects[branch][dirs[0]];
@@ -107,13 +143,35 @@ export class TimeReportProvider {
       keyEntries[entry.key].push(entry);
     }
 
-    // For each time key, select the entry with the most changed files
+    // For each time key, select the entry with the most changed lines, or
+    // the most changed files when line counts tie (e.g. edits only)
     const winningEntries: TimeEntry[] = [];
     for (const key of Object.keys(keyEntries)) {
+      // Time logged with the manual timer claims the slot and file-based
+      // entries of the same slot are dropped. Stopping a timer and starting
+      // another leaves several manual rows; the timer that ran last keeps
+      // the slot, so it counts once in the report and the summary
+      const manualEntries = keyEntries[key].filter((e) => e.manual);
+      if (manualEntries.length > 0) {
+        const lastTimestamp = (entry: TimeEntry) =>
+          Math.max(...entry.fileDetails.map((detail) => detail.timestamp));
+        winningEntries.push(
+          manualEntries.reduce((owner, entry) =>
+            lastTimestamp(entry) > lastTimestamp(owner) ? entry : owner,
+          ),
+        );
+        continue;
+      }
+
       const entries = keyEntries[key];
       let winner = entries[0];
       for (let i = 1; i < entries.length; i++) {
-        if (entries[i].files.length > winner.files.length) {
+        const linesCmp =
+          (entries[i].linesChanged ?? 0) - (winner.linesChanged ?? 0);
+        if (
+          linesCmp > 0 ||
+          (linesCmp === 0 && entries[i].files.length > winner.files.length)
+        ) {
           winner = entries[i];
         }
       }
@@ -153,21 +211,37 @@ export class TimeReportProvider {
       [compositeKey: string]: {
         branch: string;
         directory: string;
+        manualProject?: string;
         keys: Set<string>;
       };
     } = {};
 
     for (const entry of report.entries) {
-      const branchToUse = entry.assignedBranch || entry.branch;
-      const compositeKey = `${branchToUse}\0${entry.directory}`;
-      if (!compositeTimeSlots[compositeKey]) {
-        compositeTimeSlots[compositeKey] = {
-          branch: branchToUse,
-          directory: entry.directory,
-          keys: new Set(),
-        };
+      if (entry.manual) {
+        // Manual time is grouped by the project it was logged against
+        const compositeKey = `${MANUAL_BRANCH}\0${entry.project}`;
+        if (!compositeTimeSlots[compositeKey]) {
+          compositeTimeSlots[compositeKey] = {
+            branch: MANUAL_BRANCH,
+            directory: "",
+            manualProject: entry.project,
+            keys: new Set(),
+          };
+        }
+        compositeTimeSlots[compositeKey].keys.add(entry.key);
+      } else if (!entry.idle) {
+        // Idle slots still bound the day but do not count as worked time
+        const branchToUse = entry.assignedBranch || entry.branch;
+        const compositeKey = `${branchToUse}\0${entry.directory}`;
+        if (!compositeTimeSlots[compositeKey]) {
+          compositeTimeSlots[compositeKey] = {
+            branch: branchToUse,
+            directory: entry.directory,
+            keys: new Set(),
+          };
+        }
+        compositeTimeSlots[compositeKey].keys.add(entry.key);
       }
-      compositeTimeSlots[compositeKey].keys.add(entry.key);
 
       for (const detail of entry.fileDetails) {
         if (detail.timestamp < earliestTimestamp) {
@@ -196,11 +270,27 @@ export class TimeReportProvider {
     ).map((item) => ({
       branch: item.branch,
       directory: item.directory,
-      project: this.lookupProject(projects, item.branch, item.directory),
+      environment: describeEnvironment(
+        parseEnvironmentDirectory(item.directory).remoteAuthority,
+      ),
+      project:
+        item.manualProject ??
+        this.lookupProject(projects, item.branch, item.directory),
       timeSlots: item.keys.size,
+      manual: item.manualProject !== undefined || undefined,
     }));
 
+    // Group by environment (local first), then branch and directory
     overviewEntries.sort((a, b) => {
+      if (a.environment !== b.environment) {
+        if (a.environment === LOCAL_ENVIRONMENT) {
+          return -1;
+        }
+        if (b.environment === LOCAL_ENVIRONMENT) {
+          return 1;
+        }
+        return a.environment.localeCompare(b.environment);
+      }
       const branchCmp = a.branch.localeCompare(b.branch);
       if (branchCmp !== 0) {
         return branchCmp;
@@ -249,30 +339,30 @@ export class TimeReportProvider {
           ? `${hours}h ${minutes}m`
           : `${minutes}m`;
 
+    const idleMinutes = this.activityService.getIdleMinutes(report);
+    const idleHours = Math.floor(idleMinutes / 60);
+    const idleTime =
+      idleMinutes === 0
+        ? ""
+        : idleHours > 0
+          ? `${idleHours}h ${idleMinutes % 60}m`
+          : `${idleMinutes}m`;
+
     return {
       startOfDay,
       endOfDay,
       totalHours,
+      idleTime,
+      languages: this.languageService.computeLanguageTimes(report.entries),
       entries: overviewEntries,
       groups,
     };
   }
 
-  private async processQueue(): Promise<void> {
-    for (const op of this.operationQueue) {
-      if (op.type === "saveReport") {
-        if (this.currentReport) {
-          await this.saveReportToFile(this.currentReport);
-        }
-      }
-    }
-    this.operationQueue = [];
-  }
-
-  private getDateString(): string {
-    const year = this.currentDate.getFullYear();
-    const month = String(this.currentDate.getMonth() + 1).padStart(2, "0");
-    const day = String(this.currentDate.getDate()).padStart(2, "0");
+  private getDateString(date: Date = this.currentDate): string {
+    const year = date.getFullYear();
+    const month = String(date.getMonth() + 1).padStart(2, "0");
+    const day = String(date.getDate()).padStart(2, "0");
     return `${year}-${month}-${day}`;
   }
 
@@ -448,6 +538,7 @@ export class TimeReportProvider {
 
     const projects = await this.loadProjects();
     this.assignBranches(report, projects, true);
+    this.activityService.markIdleSlots(report);
 
     // Queue the save of the updated report
     this.operationQueue.push({ type: "saveReport" });
@@ -482,6 +573,7 @@ export class TimeReportProvider {
       );
       const projectsForView = this.mergeDefaultBranchProjects(projects);
       this.assignBranches(report, projectsForView);
+      this.activityService.markIdleSlots(report);
       const overview = this.computeOverview(report, projectsForView);
       this.logger.debug(
         `Computed overview with ${overview.groups.length} groups`,
@@ -527,79 +619,7 @@ export class TimeReportProvider {
       this.processedBatchFiles = new Set();
       this.logger.debug("Performing full load");
 
-      let savedEntries: SavedTimeEntry[] = [];
-      let savedStartOfDay: string | undefined;
-      let savedEndOfDay: string | undefined;
-      let hasSavedReport = false;
-
-      const saved = await this.timeReportRepository.readReport(
-        this.currentDate,
-      );
-      if (saved) {
-        savedEntries = saved.entries || [];
-        savedStartOfDay = saved.startOfDay;
-        savedEndOfDay = saved.endOfDay;
-        hasSavedReport = true;
-        this.logger.debug(
-          `Loaded saved report with ${savedEntries.length} entries`,
-        );
-      } else {
-        this.logger.debug("No saved report found");
-      }
-
-      // Build report entirely from batch data
-      let report: TimeReport = {
-        date: dateStr,
-        entries: [],
-      };
-      report = await this.batchService.mergeBatchesIntoTimeReport(
-        report,
-        this.currentDate,
-        this.config.viewGroupByMinutes,
-      );
-      this.logger.debug(
-        `Merged batches into report with ${report.entries.length} entries`,
-      );
-      report.startOfDay = savedStartOfDay;
-      report.endOfDay = savedEndOfDay;
-      report.hasSavedReport = hasSavedReport;
-
-      // Apply saved comments and projects back onto batch-derived entries
-      for (const savedEntry of savedEntries) {
-        const match = report.entries.find(
-          (e) =>
-            e.key === savedEntry.key && e.directory === savedEntry.directory,
-        );
-        if (match) {
-          if (savedEntry.comment) {
-            match.comment = savedEntry.comment;
-          }
-          if (savedEntry.project) {
-            match.project = savedEntry.project;
-          }
-          if (savedEntry.branch) {
-            match.branch = savedEntry.branch;
-          }
-          if (savedEntry.assignedBranch) {
-            match.assignedBranch = savedEntry.assignedBranch;
-          }
-        } else {
-          // Add manually-created entries (e.g. from copy row) that have no batch data
-          report.entries.push({
-            key: savedEntry.key,
-            branch: savedEntry.branch,
-            directory: savedEntry.directory,
-            files: [],
-            fileDetails: [],
-            comment: savedEntry.comment || "",
-            project: savedEntry.project || "",
-            assignedBranch: savedEntry.assignedBranch || "",
-          });
-        }
-      }
-
-      report.entries.sort((a, b) => a.key.localeCompare(b.key));
-      this.logger.debug(`Final report has ${report.entries.length} entries`);
+      const report = await this.buildReport(this.currentDate, dateStr);
 
       // Cache the loaded report as the view model
       this.currentReport = report;
@@ -613,6 +633,121 @@ export class TimeReportProvider {
     }
   }
 
+  // Builds a day's report from its batches with the saved report applied
+  private async buildReport(date: Date, dateStr: string): Promise<TimeReport> {
+    let savedEntries: SavedTimeEntry[] = [];
+    let savedStartOfDay: string | undefined;
+    let savedEndOfDay: string | undefined;
+    let hasSavedReport = false;
+
+    const saved = await this.timeReportRepository.readReport(date);
+    if (saved) {
+      savedEntries = saved.entries || [];
+      savedStartOfDay = saved.startOfDay;
+      savedEndOfDay = saved.endOfDay;
+      hasSavedReport = true;
+      this.logger.debug(
+        `Loaded saved report with ${savedEntries.length} entries`,
+      );
+    } else {
+      this.logger.debug("No saved report found");
+    }
+
+    // Build report entirely from batch data
+    let report: TimeReport = {
+      date: dateStr,
+      entries: [],
+    };
+    report = await this.batchService.mergeBatchesIntoTimeReport(
+      report,
+      date,
+      this.config.viewGroupByMinutes,
+    );
+    this.logger.debug(
+      `Merged batches into report with ${report.entries.length} entries`,
+    );
+    report.startOfDay = savedStartOfDay;
+    report.endOfDay = savedEndOfDay;
+    report.hasSavedReport = hasSavedReport;
+
+    // Apply saved comments and projects back onto batch-derived entries
+    const matchedManualEntries = new Set<TimeEntry>();
+    for (const savedEntry of savedEntries) {
+      // A slot can hold several manual rows, so each is matched only once
+      const match = savedEntry.manual
+        ? report.entries.find(
+            (e) =>
+              e.manual &&
+              e.key === savedEntry.key &&
+              !matchedManualEntries.has(e),
+          )
+        : report.entries.find(
+            (e) =>
+              !e.manual &&
+              e.key === savedEntry.key &&
+              e.directory === savedEntry.directory,
+          );
+      if (match?.manual) {
+        matchedManualEntries.add(match);
+      }
+      if (match) {
+        if (savedEntry.comment) {
+          match.comment = savedEntry.comment;
+        }
+        if (savedEntry.project) {
+          match.project = savedEntry.project;
+        }
+        if (savedEntry.branch) {
+          match.branch = savedEntry.branch;
+        }
+        if (savedEntry.assignedBranch) {
+          match.assignedBranch = savedEntry.assignedBranch;
+        }
+      } else {
+        // Add manually-created entries (e.g. from copy row) that have no batch data
+        report.entries.push({
+          key: savedEntry.key,
+          branch: savedEntry.branch,
+          directory: savedEntry.directory,
+          files: [],
+          fileDetails: [],
+          comment: savedEntry.comment || "",
+          project: savedEntry.project || "",
+          assignedBranch: savedEntry.assignedBranch || "",
+          manual: savedEntry.manual,
+        });
+      }
+    }
+
+    report.entries.sort((a, b) => a.key.localeCompare(b.key));
+    this.logger.debug(`Final report has ${report.entries.length} entries`);
+    return report;
+  }
+
+  // Today's total and current project for the status bar, computed like the
+  // overview but without touching the report shown in the webview
+  async getTodayStatus(now: Date = new Date()): Promise<TodayStatus> {
+    const report = await this.buildReport(now, this.getDateString(now));
+    const projects = this.mergeDefaultBranchProjects(await this.loadProjects());
+    this.assignBranches(report, projects);
+    this.activityService.markIdleSlots(report);
+    const overview = this.computeOverview(report, projects);
+
+    // The current slot, or the latest worked slot before it
+    const slotIndex = Math.floor(
+      (now.getHours() * 60 + now.getMinutes()) / this.config.viewGroupByMinutes,
+    );
+    const currentKey = this.shiftTimeKey("00:00", slotIndex);
+    const current = report.entries
+      .filter((e) => !e.idle && currentKey !== null && e.key <= currentKey)
+      .pop();
+
+    return {
+      totalHours: overview.totalHours,
+      project: current?.project || "",
+    };
+  }
+
   private mergeDefaultBranchProjects(projects: ProjectMap): ProjectMap {
     if (Object.keys(this.defaultBranchProjects).length === 0) {
       return projects;
@@ -696,11 +831,20 @@ export class TimeReportProvider {
         comment: entry.comment,
         project: entry.project,
         assignedBranch: entry.assignedBranch,
+        idle: entry.idle || undefined,
+        languages: entry.languages,
+        manual: entry.manual || undefined,
       })),
     };
   }
 
-  private async saveReportToFile(reportData: TimeReport): Promise<void> {
+  // Project mappings changed in the view are written when the report is
+  // saved; on shutdown they are written on their own so they are not lost
+  async flushPendingOperations(): Promise<void> {
+    await this.viewModelInstance.writeQueuedOperations();
+  }
+
+  private async saveReportToFile(reportData: TimeReport): Promise<string> {
     // Update the in-memory view model immediately
     this.currentReport = reportData;
     this.currentReportDate = this.getDateString();
@@ -711,7 +855,7 @@ export class TimeReportProvider {
     const day = String(this.currentDate.getDate()).padStart(2, "0");
     const reportFile = path.join("reports", String(year), month, `${day}.json`);
 
-    await OperationQueueWriter.write(
+    return OperationQueueWriter.write(
       this.operationRepository,
       {
         type: "timereport",
@@ -724,18 +868,19 @@ export class TimeReportProvider {
 
   private async saveReport(reportData: TimeReport): Promise<void> {
     await this.timeReportRepository.saveReport(reportData);
-    this.currentReport = reportData;
-    this.viewModelInstance.setReport(reportData);
-    await this.processQueue();
+    // A save queued by a project refresh is covered by this one
+    this.operationQueue = [];
+    const operationIds: string[] = [];
     try {
+      operationIds.push(await this.saveReportToFile(reportData));
       // Save project mappings from report entries
       for (const entry of reportData.entries) {
         const mappingBranch = entry.assignedBranch || entry.branch;
-        if (DEFAULT_BRANCHES.includes(mappingBranch)) {
+        if (entry.manual || DEFAULT_BRANCHES.includes(mappingBranch)) {
           continue;
         }
         if (entry.project) {
-          await OperationQueueWriter.write(
+          const id = await OperationQueueWriter.write(
             this.operationRepository,
             {
               type: "projectChange",
@@ -746,13 +891,110 @@ export class TimeReportProvider {
             },
             this.logger,
           );
+          operationIds.push(id);
         }
       }
-
-      vscode.window.showInformationMessage("Time report saved successfully");
     } catch (error) {
       this.logger.error(`Error saving time report: ${error}`);
       vscode.window.showErrorMessage(`Failed to save time report: ${error}`);
+      return;
+    }
+
+    // The view does not wait for the commit
+    this.reportSaveResult(operationIds);
+  }
+
+  private async reportSaveResult(operationIds: string[]): Promise<void> {
+    try {
+      let results = await Promise.all(
+        operationIds.map((id) =>
+          this.operationRepository.waitForResult(id, SAVE_RESULT_TIMEOUT_MS),
+        ),
+      );
+      if (results.every((result) => result?.status === "committed")) {
+        vscode.window.showInformationMessage("Time report saved and committed");
+        return;
+      }
+
+      if (!results.some((result) => result?.status === "failed")) {
+        const retrying = results.find(
+          (result) => result?.status === "retrying",
+        );
+        vscode.window.showWarningMessage(
+          retrying
+            ? `Time report saved, committing it failed and is retried: ${retrying.error}`
+            : "Time report saved, the commit is still pending",
+        );
+        results = await this.waitForFinalResults(operationIds, results);
+        if (results.every((result) => result?.status === "committed")) {
+          vscode.window.showInformationMessage("Time report committed");
+          return;
+        }
+      }
+
+      const failed = results.find((result) => result?.status === "failed");
+      if (!failed) {
+        this.logger.info("Time report commit still pending, no longer waiting");
+        return;
+      }
+      const failedIds = operationIds.filter(
+        (_id, index) => results[index]?.status === "failed",
+      );
+      const retryAction = "Retry";
+      const answer = await vscode.window.showErrorMessage(
+        `Time report could not be committed: ${failed.error}`,
+        retryAction,
+      );
+      if (answer === retryAction) {
+        await this.retryFailedSave(failedIds);
+      }
+    } catch (error) {
+      this.logger.error(`Error waiting for time report save: ${error}`);
+    }
+  }
+
+  // Skips the results of attempts that are retried until each request is
+  // committed or failed, or the wait times out
+  private async waitForFinalResults(
+    operationIds: string[],
+    results: (OperationResult | null)[],
+  ): Promise<(OperationResult | null)[]> {
+    const deadline = Date.now() + COMMIT_RESULT_TIMEOUT_MS;
+    return Promise.all(
+      operationIds.map(async (id, index) => {
+        let result = results[index];
+        while (
+          result?.status !== "committed" &&
+          result?.status !== "failed" &&
+          Date.now() < deadline
+        ) {
+          result =
+            (await this.operationRepository.waitForResult(
+              id,
+              deadline - Date.now(),
+            )) ?? result;
+        }
+        return result;
+      }),
+    );
+  }
+
+  // Requeues the backed-up requests rather than saving the report again,
+  // which could overwrite what was edited since
+  private async retryFailedSave(operationIds: string[]): Promise<void> {
+    const retried: string[] = [];
+    for (const id of operationIds) {
+      try {
+        await this.operationRepository.retryFailedOperation(`${id}.json`);
+        retried.push(id);
+      } catch (error) {
+        // A superseded request is not backed up; the newer one that is
+        // holds its content
+        this.logger.error(`Error retrying operation ${id}: ${error}`);
+      }
+    }
+    if (retried.length > 0) {
+      await this.reportSaveResult(retried);
     }
   }
 
@@ -794,6 +1036,15 @@ export class TimeReportProvider {
             const hours = Math.floor(timeMinutes / 60);
             const minutes = timeMinutes % 60;
             const timeStr = hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+            if (entry.manual) {
+              return `
+            <tr class="project-group-entry manual-slot">
+                <td>${MANUAL_LABEL}</td>
+                <td></td>
+                <td>${this.escapeHtml(selectedProject)}</td>
+                <td>${this.escapeHtml(timeStr)}</td>
+            </tr>`;
+            }
             const branchCell = this.config.branchTaskUrl
               ? `<a href="${this.escapeHtml(this.config.branchTaskUrl.replace("{branch}", entry.branch))}" title="Open task">${this.escapeHtml(entry.branch)}</a>`
               : this.escapeHtml(entry.branch);
@@ -804,7 +1055,7 @@ export class TimeReportProvider {
             return `
             <tr class="project-group-entry">
                 <td>${branchCell}</td>
-                <td>${this.escapeHtml(entry.directory)}</td>
+                <td>${this.escapeHtml(formatEnvironmentDirectory(entry.directory))}</td>
                 <td>${projectCell}</td>
                 <td>${this.escapeHtml(timeStr)}</td>
             </tr>`;
@@ -815,6 +1066,19 @@ export class TimeReportProvider {
       })
       .join("");
 
+    const languageRowsHtml = overview.languages
+      .map((entry) => {
+        const hours = Math.floor(entry.minutes / 60);
+        const minutes = entry.minutes % 60;
+        const timeStr = hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+        return `
+            <tr>
+                <td>${this.escapeHtml(entry.language)}</td>
+                <td>${this.escapeHtml(timeStr)}</td>
+            </tr>`;
+      })
+      .join("");
+
     const existingKeys = new Set(report.entries.map((e) => e.key));
 
     const entriesHtml = report.entries
@@ -822,6 +1086,9 @@ export class TimeReportProvider {
         const gapClass = this.hasTimeGap(report.entries, index)
           ? " time-gap"
           : "";
+        const idleClass = entry.idle ? " idle-slot" : "";
+        const manualClass = entry.manual ? " manual-slot" : "";
+        const disabledEdit = entry.manual ? " disabled" : "";
         const keyAbove = this.shiftTimeKey(entry.key, -1);
         const keyBelow = this.shiftTimeKey(entry.key, 1);
         const disabledAbove =
@@ -829,15 +1096,15 @@ export class TimeReportProvider {
         const disabledBelow =
           keyBelow === null || existingKeys.has(keyBelow) ? " disabled" : "";
         return `
-            <tr class="entry-row${gapClass}" data-index="${index}">
+            <tr class="entry-row${gapClass}${idleClass}${manualClass}" data-index="${index}">
                 <td class="row-buttons-cell">
                     <button class="row-btn copy-above-btn" data-index="${index}" title="Copy above"${disabledAbove}>&#9650;</button>
                     <button class="row-btn copy-below-btn" data-index="${index}" title="Copy below"${disabledBelow}>&#9660;</button>
-                    <button class="row-btn edit-btn" data-index="${index}" title="Edit branch">&#9998;</button>
+                    <button class="row-btn edit-btn" data-index="${index}" title="Edit branch"${disabledEdit}>&#9998;</button>
                 </td>
                 <td>${this.escapeHtml(entry.key)}</td>
-                <td>${this.escapeHtml(entry.directory)}</td>
-                <td class="branch-cell">${this.escapeHtml(entry.branch)}</td>
+                <td>${this.escapeHtml(formatEnvironmentDirectory(entry.directory))}</td>
+                <td class="branch-cell">${this.escapeHtml(entry.manual ? MANUAL_LABEL : entry.branch)}</td>
                 <td><input type="text" class="comment-field" data-index="${index}" value="${this.escapeHtml(entry.comment)}" /></td>
                 <td class="project-cell">${this.escapeHtml(entry.project)}</td>
                 <td class="assigned-branch-cell">${this.escapeHtml(entry.assignedBranch)}</td>
@@ -868,15 +1135,32 @@ export class TimeReportProvider {
       }
     }
 
+    // Display labels so the webview can show remote directories by environment
+    const directoryLabels: {
+      [directory: string]: { label: string; environment: string };
+    } = {};
+    for (const entry of report.entries) {
+      directoryLabels[entry.directory] = {
+        label: formatEnvironmentDirectory(entry.directory),
+        environment: describeEnvironment(
+          parseEnvironmentDirectory(entry.directory).remoteAuthority,
+        ),
+      };
+    }
+
     const replacements = {
       dateStr: this.escapeHtml(dateStr),
       startOfDay: this.escapeHtml(overview.startOfDay || ""),
       endOfDay: this.escapeHtml(overview.endOfDay || ""),
       totalHours: this.escapeHtml(overview.totalHours || ""),
+      idleTime: this.escapeHtml(overview.idleTime || "0m"),
       overviewHtml: overviewRowsHtml,
+      languageHtml: languageRowsHtml,
       entriesHtml: entriesHtml,
       entriesJson: JSON.stringify(report.entries),
       projectsJson: JSON.stringify(projects),
+      directoryLabelsJson: JSON.stringify(directoryLabels),
+      defaultBranchesJson: JSON.stringify(DEFAULT_BRANCHES),
       overviewJson: JSON.stringify(overview),
       projectNamesJson: JSON.stringify(Array.from(allProjectNames)),
       exportButton: this.logger.isDebugEnabled()
@@ -23,6 +23,9 @@ function createTestConfig(testRoot: string): CoftConfig {
     exportDir: "",
     exportAgeDays: 90,
     startOfWeek: "monday",
+    editThrottleSeconds: 30,
+    idleThresholdMinutes: 5,
+    outsideWorkspace: "repository",
   };
 }
 
@@ -142,6 +145,24 @@ suite("TimeReportViewModel Test Suite", () => {
     );
   });
 
+  test("writeQueuedOperations writes operations without the report", async () => {
+    vm.setReport({ date: "2026-02-10T00:00:00.000Z", entries: [] });
+    await vm.updateProjectMapping("main", "Alpha", "/p");
+    await vm.updateProjectMapping("develop", "Beta", "/q");
+
+    await vm.writeQueuedOperations();
+
+    assert.strictEqual((vm as any).operationQueue.length, 0);
+    const files = await fs.readdir(testConfig.operationQueue);
+    assert.strictEqual(files.length, 2);
+    for (const file of files) {
+      const op = JSON.parse(
+        await fs.readFile(path.join(testConfig.operationQueue, file), "utf-8"),
+      );
+      assert.strictEqual(op.type, "projectChange");
+    }
+  });
+
   test("save with no report only writes queued operations", async () => {
     // No report set, no queued ops
     await vm.save();
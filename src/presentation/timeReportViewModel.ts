@@ -67,20 +67,30 @@ export class TimeReportViewModel {
         comment: entry.comment,
         project: entry.project,
         assignedBranch: entry.assignedBranch,
+        idle: entry.idle || undefined,
+        languages: entry.languages,
+        manual: entry.manual || undefined,
       })),
     };
   }
 
-  async save(): Promise<void> {
-    // Write all queued operations to disk
-    for (const op of this.operationQueue) {
+  // Writes the queued operations without the report, e.g. when the window
+  // closes before the report is saved; an operation leaves the queue only
+  // once it is on disk
+  async writeQueuedOperations(): Promise<void> {
+    while (this.operationQueue.length > 0) {
       await OperationQueueWriter.write(
         this.operationRepository,
-        op,
+        this.operationQueue[0],
         this.logger,
       );
+      this.operationQueue.shift();
     }
-    this.operationQueue = [];
+  }
+
+  async save(): Promise<void> {
+    // Write all queued operations to disk
+    await this.writeQueuedOperations();
 
     // Then write the operation to save the report
     if (this.report) {
@@ -131,6 +141,7 @@ export class TimeReportViewModel {
       comment: entry.comment,
       project: entry.project,
       assignedBranch: entry.assignedBranch,
+      manual: entry.manual,
     };
 
     this.report.entries.push(newEntry);
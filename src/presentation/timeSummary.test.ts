@@ -26,6 +26,9 @@ function createTestConfig(
     exportDir: "",
     exportAgeDays: 90,
     startOfWeek,
+    editThrottleSeconds: 30,
+    idleThresholdMinutes: 5,
+    outsideWorkspace: "repository",
   };
 }
 
@@ -262,6 +265,78 @@ suite("TimeSummaryProvider Navigation Test Suite", () => {
     assert.strictEqual(alpha!.totalTime, 30);
   });
 
+  test("recomputeSummary: aggregates language time for included dates only", () => {
+    const provider = makeProvider();
+    const entry = (key: string, languages?: string[]) => ({
+      key,
+      branch: "main",
+      directory: "/p",
+      files: [],
+      fileDetails: [],
+      comment: "",
+      project: "Alpha",
+      assignedBranch: "main",
+      languages,
+    });
+    const reports: TimeReport[] = [
+      {
+        date: "2026-02-10",
+        entries: [
+          entry("09:00", ["yaml"]),
+          entry("09:15", ["yaml", "typescript"]),
+          entry("09:30"),
+        ],
+      },
+      { date: "2026-02-11", entries: [entry("10:00", ["typescript"])] },
+    ];
+    (provider as any).reports = reports;
+    (provider as any).summaryData = {
+      summaryEntries: [],
+      languageEntries: [],
+      dateEntries: [
+        { date: "2026-02-10", workTime: 45, include: true, dayOfWeek: "Tue" },
+        { date: "2026-02-11", workTime: 15, include: false, dayOfWeek: "Wed" },
+      ],
+    };
+
+    (provider as any).recomputeSummary();
+
+    // A slot with two languages is split evenly; older slots are "unknown"
+    assert.deepStrictEqual((provider as any).summaryData.languageEntries, [
+      { language: "yaml", minutes: 23 },
+      { language: "unknown", minutes: 15 },
+      { language: "typescript", minutes: 8 },
+    ]);
+  });
+
+  test("computeSummary: counts a slot with several manual rows once", () => {
+    const provider = makeProvider();
+    const manualRow = (project: string) => ({
+      key: "09:00",
+      branch: "_manual",
+      directory: "",
+      files: [],
+      fileDetails: [],
+      comment: "",
+      project,
+      assignedBranch: "_manual",
+      manual: true,
+    });
+    const reports: TimeReport[] = [
+      {
+        date: "2026-02-10",
+        entries: [manualRow("Alpha"), manualRow("Beta")],
+      },
+    ];
+
+    const summary = (provider as any).computeSummary(reports);
+
+    assert.strictEqual(summary.dateEntries[0].workTime, 15);
+    assert.deepStrictEqual(summary.summaryEntries, [
+      { project: "Alpha", totalTime: 15 },
+    ]);
+  });
+
   test("recomputeSummary: no-op when summaryData is null", () => {
     const provider = makeProvider();
     (provider as any).summaryData = null;
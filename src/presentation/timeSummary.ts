@@ -1,7 +1,8 @@
 import * as vscode from "vscode";
 import { CoftConfig, getStartDayOfWeek } from "../application/config";
 import { TimeReportRepository } from "../storage/timeReportRepository";
-import { TimeReport } from "../storage/batchRepository";
+import { TimeEntry, TimeReport } from "../storage/batchRepository";
+import { LanguageService, LanguageTime } from "../services/languageService";
 import { Logger } from "../utils/logger";
 
 interface SummaryEntry {
@@ -18,6 +19,7 @@ interface DateEntry {
 
 interface SummaryData {
   summaryEntries: SummaryEntry[];
+  languageEntries: LanguageTime[];
   dateEntries: DateEntry[];
 }
 
@@ -27,6 +29,7 @@ export class TimeSummaryProvider {
   private endDate: Date;
   private panel: vscode.WebviewPanel | null = null;
   private timeReportRepository: TimeReportRepository;
+  private languageService: LanguageService;
   private summaryData: SummaryData | null = null;
   private reports: TimeReport[] = [];
   private openTimeReportCallback?: (date: Date) => Promise<void>;
@@ -39,6 +42,7 @@ export class TimeSummaryProvider {
     this.config = config;
     this.openTimeReportCallback = openTimeReportCallback;
     this.timeReportRepository = new TimeReportRepository(config);
+    this.languageService = new LanguageService(config);
     this.startDate = new Date();
     this.endDate = new Date();
     this.setCurrentWeek();
@@ -183,7 +187,7 @@ export class TimeSummaryProvider {
         (d) => d.date === report.date,
       );
       if (entry && entry.include) {
-        for (const e of report.entries) {
+        for (const e of this.getWorkedEntries(report)) {
           const project = e.project || "Unassigned";
           projectTotals[project] = (projectTotals[project] || 0) + 1;
         }
@@ -195,6 +199,35 @@ export class TimeSummaryProvider {
         totalTime: projectTotals[project] * this.config.viewGroupByMinutes,
       }),
     );
+    this.summaryData.languageEntries = this.computeLanguageEntries(
+      this.reports,
+      this.summaryData.dateEntries,
+    );
+  }
+
+  // Worked slots of a day, one entry each; reports saved while a slot could
+  // hold several manual rows keep the first of them
+  private getWorkedEntries(report: TimeReport): TimeEntry[] {
+    const keys = new Set<string>();
+    return report.entries.filter((e) => {
+      if (e.idle || keys.has(e.key)) {
+        return false;
+      }
+      keys.add(e.key);
+      return true;
+    });
+  }
+
+  private computeLanguageEntries(
+    reports: TimeReport[],
+    dateEntries: DateEntry[],
+  ): LanguageTime[] {
+    const included = reports.filter(
+      (report) => dateEntries.find((d) => d.date === report.date)?.include,
+    );
+    return this.languageService.computeLanguageTimes(
+      included.flatMap((report) => report.entries),
+    );
   }
 
   private async updateView(): Promise<void> {
@@ -232,6 +265,9 @@ export class TimeSummaryProvider {
             comment: e.comment || "",
             project: e.project || "",
             assignedBranch: e.assignedBranch || "",
+            idle: e.idle || false,
+            languages: e.languages,
+            manual: e.manual,
           })),
           startOfDay: saved.startOfDay,
           endOfDay: saved.endOfDay,
@@ -252,7 +288,7 @@ export class TimeSummaryProvider {
       const localDate = new Date(yr, mo - 1, dy);
       const date = report.date;
       const isWeekend = localDate.getDay() === 0 || localDate.getDay() === 6;
-      const totalSlots = report.entries.length;
+      const totalSlots = this.getWorkedEntries(report).length;
       const dayOfWeek = localDate.toLocaleDateString(undefined, {
         weekday: "short",
       });
@@ -268,7 +304,7 @@ export class TimeSummaryProvider {
     for (const report of reports) {
       const entry = dateEntries.find((d) => d.date === report.date);
       if (entry && entry.include) {
-        for (const e of report.entries) {
+        for (const e of this.getWorkedEntries(report)) {
           const project = e.project || "Unassigned";
           projectTotals[project] = (projectTotals[project] || 0) + 1;
         }
@@ -282,7 +318,9 @@ export class TimeSummaryProvider {
       }))
       .sort((a, b) => b.totalTime - a.totalTime);
 
-    return { summaryEntries, dateEntries };
+    const languageEntries = this.computeLanguageEntries(reports, dateEntries);
+
+    return { summaryEntries, languageEntries, dateEntries };
   }
 
   private getHtmlContent(summary: SummaryData): string {
@@ -298,6 +336,15 @@ export class TimeSummaryProvider {
       })
       .join("");
 
+    const languageRows = summary.languageEntries
+      .map((entry) => {
+        const hours = Math.floor(entry.minutes / 60);
+        const minutes = entry.minutes % 60;
+        const timeStr = hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+        return `<tr><td>${this.escapeHtml(entry.language)}</td><td>${timeStr}</td></tr>`;
+      })
+      .join("");
+
     const dateRows = summary.dateEntries
       .map((entry) => {
         const hours = Math.floor(entry.workTime / 60);
@@ -337,6 +384,11 @@ export class TimeSummaryProvider {
         <thead><tr><th>Project</th><th>Time</th></tr></thead>
         <tbody>${summaryRows}</tbody>
     </table>
+    <h2>Summary by Language</h2>
+    <table id="languageTable">
+        <thead><tr><th>Language</th><th>Time</th></tr></thead>
+        <tbody>${languageRows}</tbody>
+    </table>
     <h2>Dates</h2>
     <table>
         <thead><tr><th>Include</th><th>Date</th><th>Day</th><th>Work Time</th></tr></thead>
@@ -350,6 +402,7 @@ export class TimeSummaryProvider {
                 // Optionally update state
             } else if (message.command === 'updateSummary') {
                 updateSummaryTable(message.data.summaryEntries);
+                updateLanguageTable(message.data.languageEntries);
             }
         });
         function updateSummaryTable(summaryEntries) {
@@ -361,6 +414,15 @@ export class TimeSummaryProvider {
                 return '<tr><td>' + escapeHtml(entry.project) + '</td><td>' + timeStr + '</td></tr>';
             }).join('');
         }
+        function updateLanguageTable(languageEntries) {
+            const tbody = document.querySelector('#languageTable tbody');
+            tbody.innerHTML = languageEntries.map(entry => {
+                const hours = Math.floor(entry.minutes / 60);
+                const minutes = entry.minutes % 60;
+                const timeStr = hours > 0 ? hours + 'h ' + minutes + 'm' : minutes + 'm';
+                return '<tr><td>' + escapeHtml(entry.language) + '</td><td>' + timeStr + '</td></tr>';
+            }).join('');
+        }
         function escapeHtml(text) {
             const div = document.createElement('div');
             div.textContent = text;
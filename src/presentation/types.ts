@@ -1,8 +1,12 @@
+import { LanguageTime } from "../services/languageService";
+
 export interface OverviewEntry {
   branch: string;
   directory: string;
+  environment: string;
   project: string;
   timeSlots: number;
+  manual?: boolean;
 }
 
 export interface ProjectGroup {
@@ -15,10 +19,17 @@ export interface OverviewData {
   startOfDay: string;
   endOfDay: string;
   totalHours: string;
+  idleTime: string;
+  languages: LanguageTime[];
   entries: OverviewEntry[];
   groups: ProjectGroup[];
 }
 
+export interface TodayStatus {
+  totalHours: string;
+  project: string;
+}
+
 export interface QueuedOperation {
   type: "saveReport";
 }
@@ -0,0 +1,197 @@
+import * as assert from "assert";
+import * as path from "path";
+import * as os from "os";
+import { ActivityService } from "./activityService";
+import { CoftConfig } from "../application/config";
+import { TimeEntry, TimeReport } from "../storage/batchRepository";
+
+function createTestConfig(testRoot: string): CoftConfig {
+  return {
+    root: testRoot,
+    queue: path.join(testRoot, "queue"),
+    queueBatch: path.join(testRoot, "queue_batch"),
+    queueBackup: path.join(testRoot, "queue_backup"),
+    operationQueue: path.join(testRoot, "operation_queue"),
+    operationQueueBackup: path.join(testRoot, "operation_queue_backup"),
+    data: path.join(testRoot, "data"),
+    backup: path.join(testRoot, "backup"),
+    intervalSeconds: 60,
+    viewGroupByMinutes: 15,
+    branchTaskUrl: "",
+    exportDir: "",
+    exportAgeDays: 90,
+    startOfWeek: "monday",
+    editThrottleSeconds: 30,
+    idleThresholdMinutes: 5,
+    outsideWorkspace: "repository",
+  };
+}
+
+function at(hours: number, minutes: number, seconds: number = 0): number {
+  return new Date(2026, 1, 16, hours, minutes, seconds).getTime();
+}
+
+function makeEntry(key: string, timestamps: number[]): TimeEntry {
+  return {
+    key,
+    branch: "main",
+    directory: "/project",
+    files: timestamps.map((_, i) => `file${i}.ts`),
+    fileDetails: timestamps.map((timestamp, i) => ({
+      file: `file${i}.ts`,
+      timestamp,
+    })),
+    comment: "",
+    project: "",
+    assignedBranch: "main",
+  };
+}
+
+suite("ActivityService Test Suite", () => {
+  let service: ActivityService;
+
+  setup(() => {
+    service = new ActivityService(
+      createTestConfig(path.join(os.tmpdir(), "coft-activity-test")),
+    );
+  });
+
+  test("computeIdlePeriods returns nothing without activity events", () => {
+    const report: TimeReport = {
+      date: "2026-02-16",
+      entries: [makeEntry("09:00", [at(9, 1)])],
+    };
+    assert.deepStrictEqual(service.computeIdlePeriods(report), []);
+  });
+
+  test("computeIdlePeriods spans blur until the next focus", () => {
+    const report: TimeReport = {
+      date: "2026-02-16",
+      entries: [],
+      activityEvents: [
+        { kind: "blur", timestamp: at(12, 0) },
+        { kind: "focus", timestamp: at(12, 45) },
+      ],
+    };
+    assert.deepStrictEqual(service.computeIdlePeriods(report), [
+      { start: at(12, 0), end: at(12, 45) },
+    ]);
+  });
+
+  test("computeIdlePeriods ends idle on file activity", () => {
+    const report: TimeReport = {
+      date: "2026-02-16",
+      entries: [makeEntry("12:30", [at(12, 30)])],
+      activityEvents: [{ kind: "idle", timestamp: at(12, 0) }],
+    };
+    assert.deepStrictEqual(service.computeIdlePeriods(report), [
+      { start: at(12, 0), end: at(12, 30) },
+    ]);
+  });
+
+  test("computeIdlePeriods ignores periods shorter than the threshold", () => {
+    const report: TimeReport = {
+      date: "2026-02-16",
+      entries: [],
+      activityEvents: [
+        { kind: "blur", timestamp: at(12, 0) },
+        { kind: "focus", timestamp: at(12, 2) },
+      ],
+    };
+    assert.deepStrictEqual(service.computeIdlePeriods(report), []);
+  });
+
+  test("computeIdlePeriods ignores a blur right after focus in another window", () => {
+    const report: TimeReport = {
+      date: "2026-02-16",
+      entries: [makeEntry("12:30", [at(12, 30)])],
+      activityEvents: [
+        { kind: "focus", timestamp: at(12, 0, 0) },
+        { kind: "blur", timestamp: at(12, 0, 0) + 200 },
+      ],
+    };
+    assert.deepStrictEqual(service.computeIdlePeriods(report), []);
+  });
+
+  test("computeIdlePeriods ignores idle windows while another is active", () => {
+    const report: TimeReport = {
+      date: "2026-02-16",
+      entries: [],
+      activityEvents: [
+        { kind: "focus", timestamp: at(12, 0), window: "a" },
+        { kind: "focus", timestamp: at(12, 1), window: "b" },
+        { kind: "idle", timestamp: at(12, 5), window: "a" },
+        { kind: "active", timestamp: at(12, 40), window: "a" },
+      ],
+    };
+    assert.deepStrictEqual(service.computeIdlePeriods(report), []);
+  });
+
+  test("computeIdlePeriods starts idle once every window is inactive", () => {
+    const report: TimeReport = {
+      date: "2026-02-16",
+      entries: [],
+      activityEvents: [
+        { kind: "focus", timestamp: at(12, 0), window: "a" },
+        { kind: "blur", timestamp: at(12, 5), window: "a" },
+        { kind: "focus", timestamp: at(12, 5) + 100, window: "b" },
+        { kind: "idle", timestamp: at(12, 20), window: "b" },
+        { kind: "focus", timestamp: at(12, 50), window: "a" },
+      ],
+    };
+    assert.deepStrictEqual(service.computeIdlePeriods(report), [
+      { start: at(12, 20), end: at(12, 50) },
+    ]);
+  });
+
+  test("markIdleSlots flags slots that are mostly idle", () => {
+    const report: TimeReport = {
+      date: "2026-02-16",
+      entries: [makeEntry("12:00", []), makeEntry("13:00", [at(13, 0)])],
+      activityEvents: [{ kind: "blur", timestamp: at(12, 2) }],
+    };
+    service.markIdleSlots(report);
+    assert.strictEqual(report.entries[0].idle, true);
+    assert.strictEqual(report.entries[1].idle, false);
+  });
+
+  test("markIdleSlots keeps slots with file activity", () => {
+    const report: TimeReport = {
+      date: "2026-02-16",
+      entries: [
+        makeEntry("12:00", [at(12, 1)]),
+        makeEntry("13:00", [at(13, 0)]),
+      ],
+      activityEvents: [{ kind: "blur", timestamp: at(12, 2) }],
+    };
+    service.markIdleSlots(report);
+    assert.strictEqual(report.entries[0].idle, false);
+  });
+
+  test("markIdleSlots keeps slots with mostly active time", () => {
+    const report: TimeReport = {
+      date: "2026-02-16",
+      entries: [
+        makeEntry("12:00", [at(12, 1)]),
+        makeEntry("12:15", [at(12, 20)]),
+      ],
+      activityEvents: [{ kind: "blur", timestamp: at(12, 10) }],
+    };
+    service.markIdleSlots(report);
+    assert.strictEqual(report.entries[0].idle, false);
+  });
+
+  test("getIdleMinutes sums all idle periods", () => {
+    const report: TimeReport = {
+      date: "2026-02-16",
+      entries: [],
+      activityEvents: [
+        { kind: "blur", timestamp: at(10, 0) },
+        { kind: "focus", timestamp: at(10, 10) },
+        { kind: "idle", timestamp: at(12, 0) },
+        { kind: "active", timestamp: at(13, 0) },
+      ],
+    };
+    assert.strictEqual(service.getIdleMinutes(report), 70);
+  });
+});
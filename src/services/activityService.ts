@@ -0,0 +1,129 @@
+import { CoftConfig } from "../application/config";
+import { TimeReport } from "../storage/batchRepository";
+
+export interface IdlePeriod {
+  start: number;
+  end: number;
+}
+
+interface TimelineItem {
+  timestamp: number;
+  // Null for file activity, which is not tied to a window
+  window: string | null;
+  inactive: boolean;
+}
+
+// Focus and blur from two windows arrive in either order; a blur this close
+// to a focus elsewhere is a window switch, not the user leaving. Events of
+// older versions carry no window, so this is all that tells them apart
+const WINDOW_SWITCH_TOLERANCE_MS = 1000;
+
+export class ActivityService {
+  private config: CoftConfig;
+
+  constructor(config: CoftConfig) {
+    this.config = config;
+  }
+
+  // Each window is inactive between its blur or idle event and its next focus
+  // or active event, and counts from its first event on. The user is idle
+  // only while every window is inactive; file activity in any window ends
+  // that, until the next blur or idle event
+  computeIdlePeriods(report: TimeReport): IdlePeriod[] {
+    const events = report.activityEvents || [];
+    if (events.length === 0) {
+      return [];
+    }
+
+    const timeline: TimelineItem[] = events.map((e) => ({
+      timestamp: e.timestamp,
+      window: e.window ?? "",
+      inactive: e.kind === "blur" || e.kind === "idle",
+    }));
+    for (const entry of report.entries) {
+      for (const detail of entry.fileDetails) {
+        timeline.push({
+          timestamp: detail.timestamp,
+          window: null,
+          inactive: false,
+        });
+      }
+    }
+    timeline.sort((a, b) => a.timestamp - b.timestamp);
+
+    const minIdleMs = this.config.idleThresholdMinutes * 60 * 1000;
+    const periods: IdlePeriod[] = [];
+    const inactiveWindows = new Map<string, boolean>();
+    let inactiveSince: number | null = null;
+    let lastFocus = -Infinity;
+
+    for (const item of timeline) {
+      if (item.window !== null) {
+        inactiveWindows.set(item.window, item.inactive);
+      }
+      if (!item.inactive) {
+        if (
+          inactiveSince !== null &&
+          item.timestamp - inactiveSince >= minIdleMs
+        ) {
+          periods.push({ start: inactiveSince, end: item.timestamp });
+        }
+        inactiveSince = null;
+        if (item.window !== null) {
+          lastFocus = item.timestamp;
+        }
+      } else if (
+        inactiveSince === null &&
+        [...inactiveWindows.values()].every((inactive) => inactive) &&
+        item.timestamp - lastFocus > WINDOW_SWITCH_TOLERANCE_MS
+      ) {
+        inactiveSince = item.timestamp;
+      }
+    }
+
+    return periods;
+  }
+
+  markIdleSlots(report: TimeReport): void {
+    const periods = this.computeIdlePeriods(report);
+    const [year, month, day] = report.date.split("-").map(Number);
+    const slotMs = this.config.viewGroupByMinutes * 60 * 1000;
+
+    for (const entry of report.entries) {
+      // Manual time is logged away from the editor on purpose, and a slot
+      // with saves or edits was worked whatever the events say
+      if (entry.manual || entry.fileDetails.length > 0) {
+        entry.idle = false;
+        continue;
+      }
+      const [hours, minutes] = entry.key.split(":").map(Number);
+      const slotStart = new Date(
+        year,
+        month - 1,
+        day,
+        hours,
+        minutes,
+      ).getTime();
+      const slotEnd = slotStart + slotMs;
+
+      let idleMs = 0;
+      for (const period of periods) {
+        const overlap =
+          Math.min(slotEnd, period.end) - Math.max(slotStart, period.start);
+        if (overlap > 0) {
+          idleMs += overlap;
+        }
+      }
+
+      // A slot without activity of its own (e.g. a copied row) counts as
+      // idle when the user was away for most of it
+      entry.idle = idleMs * 2 >= slotMs;
+    }
+  }
+
+  getIdleMinutes(report: TimeReport): number {
+    const periods = this.computeIdlePeriods(report);
+    const idleMs = periods.reduce((sum, p) => sum + (p.end - p.start), 0);
+    return Math.round(idleMs / 60000);
+  }
+}
@@ -1,10 +1,25 @@
+import * as crypto from "crypto";
 import * as fs from "fs/promises";
 import * as path from "path";
 import { CoftConfig } from "../application/config";
 import { TimeReport } from "../storage/batchRepository";
-import { CollectBatchesResult, BatchEntry } from "../storage/storage";
+import {
+  CollectBatchesResult,
+  BatchEntry,
+  BatchFileEntry,
+  EVENTS_BRANCH,
+  MANUAL_BRANCH,
+  PRIVATE_BRANCH,
+  QueueEntry,
+  isActivityEvent,
+} from "../storage/storage";
 import { Logger } from "../utils/logger";
 
+export interface RecordedFile {
+  directory: string;
+  file: string;
+}
+
 export class BatchService {
   private config: CoftConfig;
   private logger: Logger;
@@ -14,6 +29,68 @@ export class BatchService {
     this.logger = logger;
   }
 
+  // Auto-save can save a file several times a second. Saves of a file within
+  // a slot become one entry with the latest timestamp and the summed line
+  // changes, whichever window recorded them
+  coalesceSaves(entries: QueueEntry[]): QueueEntry[] {
+    const result: QueueEntry[] = [];
+    const saves = new Map<string, number>();
+    for (const entry of entries) {
+      if ((entry.kind ?? "save") !== "save" || entry.private) {
+        result.push(entry);
+        continue;
+      }
+      const key = [
+        entry.directory,
+        entry.filename,
+        entry.gitBranch ?? "",
+        entry.remoteAuthority ?? "",
+        this.getSlotStart(entry.timestamp),
+      ].join("\0");
+      const index = saves.get(key);
+      if (index === undefined) {
+        saves.set(key, result.length);
+        result.push(entry);
+        continue;
+      }
+      const previous = result[index];
+      // The latest save's details win, so its timestamp is never lost
+      const merged: QueueEntry =
+        entry.timestamp >= previous.timestamp
+          ? { ...previous, ...entry }
+          : { ...entry, ...previous };
+      if (
+        previous.linesAdded !== undefined ||
+        entry.linesAdded !== undefined ||
+        previous.linesRemoved !== undefined ||
+        entry.linesRemoved !== undefined
+      ) {
+        merged.linesAdded =
+          (previous.linesAdded ?? 0) + (entry.linesAdded ?? 0);
+        merged.linesRemoved =
+          (previous.linesRemoved ?? 0) + (entry.linesRemoved ?? 0);
+      }
+      result[index] = merged;
+    }
+    return result;
+  }
+
+  // Derived from the queue files the batch was built from, which are never
+  // reused, and its newest entry. A batch processed again after a crash
+  // therefore rewrites the same file instead of adding a copy
+  getBatchFilename(queueFiles: string[], entries: QueueEntry[]): string {
+    const id = crypto
+      .createHash("sha256")
+      .update([...queueFiles].sort().join("\n"))
+      .digest("hex")
+      .substring(0, 16);
+    const timestamp = entries.reduce(
+      (newest, entry) => Math.max(newest, entry.timestamp),
+      0,
+    );
+    return `batch_${timestamp}_${id}.json`;
+  }
+
   async collectAndMergeBatches(): Promise<CollectBatchesResult> {
     const batchesDir = path.join(this.config.data, "batches");
 
@@ -83,19 +160,7 @@ export class BatchService {
       for (const file of files) {
         const filePath = path.join(batchesDir, file);
         const content = await fs.readFile(filePath, "utf-8");
-        const batch: BatchEntry = JSON.parse(content);
-
-        for (const branch in batch) {
-          if (!merged[branch]) {
-            merged[branch] = {};
-          }
-          for (const directory in batch[branch]) {
-            if (!merged[branch][directory]) {
-              merged[branch][directory] = [];
-            }
-            merged[branch][directory].push(...batch[branch][directory]);
-          }
-        }
+        this.appendBatchEntries(merged, JSON.parse(content));
       }
 
       // If the target file already exists, merge with existing data
@@ -104,18 +169,7 @@ export class BatchService {
 
       try {
         const existing = await fs.readFile(targetPath, "utf-8");
-        const existingBatch: BatchEntry = JSON.parse(existing);
-        for (const branch in existingBatch) {
-          if (!merged[branch]) {
-            merged[branch] = {};
-          }
-          for (const directory in existingBatch[branch]) {
-            if (!merged[branch][directory]) {
-              merged[branch][directory] = [];
-            }
-            merged[branch][directory].push(...existingBatch[branch][directory]);
-          }
-        }
+        this.appendBatchEntries(merged, JSON.parse(existing));
       } catch {
         // File doesn't exist yet, no merge needed
       }
@@ -139,6 +193,35 @@ export class BatchService {
     return { collected: true, filesProcessed: batchFiles.length };
   }
 
+  // The same activity can reach several batches when a batch is reprocessed;
+  // an entry with the file, timestamp and kind of one already merged is
+  // skipped
+  private appendBatchEntries(merged: BatchEntry, batch: BatchEntry): void {
+    for (const branch in batch) {
+      if (!merged[branch]) {
+        merged[branch] = {};
+      }
+      for (const directory in batch[branch]) {
+        if (!merged[branch][directory]) {
+          merged[branch][directory] = [];
+        }
+        const target = merged[branch][directory];
+        const seen = new Set(target.map((entry) => this.getEntryKey(entry)));
+        for (const entry of batch[branch][directory]) {
+          const key = this.getEntryKey(entry);
+          if (!seen.has(key)) {
+            seen.add(key);
+            target.push(entry);
+          }
+        }
+      }
+    }
+  }
+
+  private getEntryKey(entry: BatchFileEntry): string {
+    return `${entry.File}\0${entry.Timestamp}\0${entry.Kind ?? "save"}`;
+  }
+
   async mergeBatchesIntoTimeReport(
     report: TimeReport,
     currentDate: Date,
@@ -236,6 +319,30 @@ export class BatchService {
     return report;
   }
 
+  async readRecordedFiles(date: Date): Promise<RecordedFile[]> {
+    const year = date.getFullYear();
+    const month = String(date.getMonth() + 1).padStart(2, "0");
+    const day = String(date.getDate()).padStart(2, "0");
+    const report = await this.mergeBatchesIntoTimeReport(
+      { date: `${year}-${month}-${day}`, entries: [] },
+      date,
+      this.config.viewGroupByMinutes,
+    );
+
+    const seen = new Set<string>();
+    const files: RecordedFile[] = [];
+    for (const entry of report.entries) {
+      for (const file of entry.files) {
+        const key = `${entry.directory}\0${file}`;
+        if (!seen.has(key)) {
+          seen.add(key);
+          files.push({ directory: entry.directory, file });
+        }
+      }
+    }
+    return files;
+  }
+
   private getHierarchicalBatchPaths(
     batchesDir: string,
     startOfDay: Date,
@@ -268,6 +375,35 @@ export class BatchService {
     viewGroupByMinutes: number,
   ): void {
     for (const branch in batch) {
+      if (branch === EVENTS_BRANCH) {
+        this.mergeActivityEventsIntoReport(
+          report,
+          batch[branch],
+          startOfDay,
+          endOfDay,
+        );
+        continue;
+      }
+      if (branch === PRIVATE_BRANCH) {
+        this.mergePrivateEntriesIntoReport(
+          report,
+          batch[branch],
+          startOfDay,
+          endOfDay,
+          viewGroupByMinutes,
+        );
+        continue;
+      }
+      if (branch === MANUAL_BRANCH) {
+        this.mergeManualEntriesIntoReport(
+          report,
+          batch[branch],
+          startOfDay,
+          endOfDay,
+          viewGroupByMinutes,
+        );
+        continue;
+      }
       for (const directory in batch[branch]) {
         const batchFiles = batch[branch][directory];
 
@@ -283,13 +419,54 @@ export class BatchService {
                 e.directory === directory,
             );
 
+            // Entries written before activity kinds existed were all saves
+            const kind = fileEntry.Kind || "save";
+            const languageId: string | undefined = fileEntry.Language;
+            const linesAdded: number | undefined = fileEntry.Added;
+            const linesRemoved: number | undefined = fileEntry.Removed;
+            const hasLineDiff =
+              linesAdded !== undefined || linesRemoved !== undefined;
+            const linesChanged = (linesAdded ?? 0) + (linesRemoved ?? 0);
+
             if (existingEntry) {
+              if (hasLineDiff) {
+                existingEntry.linesChanged =
+                  (existingEntry.linesChanged ?? 0) + linesChanged;
+              }
+              if (
+                languageId &&
+                !(existingEntry.languages ?? []).includes(languageId)
+              ) {
+                existingEntry.languages = [
+                  ...(existingEntry.languages ?? []),
+                  languageId,
+                ];
+              }
               if (!existingEntry.files.includes(fileEntry.File)) {
                 existingEntry.files.push(fileEntry.File);
                 existingEntry.fileDetails.push({
                   file: fileEntry.File,
                   timestamp: fileEntry.Timestamp,
+                  kind,
+                  languageId,
+                  linesAdded,
+                  linesRemoved,
                 });
+              } else {
+                const detail = existingEntry.fileDetails.find(
+                  (d) => d.file === fileEntry.File,
+                );
+                // A save outranks edits of the same file within the slot
+                if (detail && kind === "save" && detail.kind === "edit") {
+                  detail.kind = "save";
+                }
+                // Repeated saves of a file add up within the slot
+                if (detail && hasLineDiff) {
+                  detail.linesAdded =
+                    (detail.linesAdded ?? 0) + (linesAdded ?? 0);
+                  detail.linesRemoved =
+                    (detail.linesRemoved ?? 0) + (linesRemoved ?? 0);
+                }
               }
             } else {
               report.entries.push({
@@ -301,11 +478,17 @@ export class BatchService {
                   {
                     file: fileEntry.File,
                     timestamp: fileEntry.Timestamp,
+                    kind,
+                    languageId,
+                    linesAdded,
+                    linesRemoved,
                   },
                 ],
                 comment: "",
                 project: "",
                 assignedBranch: "",
+                languages: languageId ? [languageId] : undefined,
+                linesChanged: hasLineDiff ? linesChanged : undefined,
               });
             }
           }
@@ -314,6 +497,132 @@ export class BatchService {
     }
   }
 
+  private mergeActivityEventsIntoReport(
+    report: TimeReport,
+    eventsByDirectory: { [directory: string]: BatchFileEntry[] },
+    startOfDay: Date,
+    endOfDay: Date,
+  ): void {
+    if (!report.activityEvents) {
+      report.activityEvents = [];
+    }
+    for (const directory in eventsByDirectory) {
+      for (const event of eventsByDirectory[directory]) {
+        if (!isActivityEvent(event.Kind)) {
+          continue;
+        }
+        const timestamp = event.Timestamp;
+        if (
+          timestamp < startOfDay.getTime() ||
+          timestamp > endOfDay.getTime()
+        ) {
+          continue;
+        }
+        // Events are keyed by the window that recorded them
+        const exists = report.activityEvents.some(
+          (e) =>
+            e.kind === event.Kind &&
+            e.timestamp === timestamp &&
+            (e.window ?? "") === directory,
+        );
+        if (!exists) {
+          report.activityEvents.push({
+            kind: event.Kind,
+            timestamp,
+            window: directory || undefined,
+          });
+        }
+      }
+    }
+    report.activityEvents.sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  private mergeManualEntriesIntoReport(
+    report: TimeReport,
+    entriesByDirectory: { [directory: string]: BatchFileEntry[] },
+    startOfDay: Date,
+    endOfDay: Date,
+    viewGroupByMinutes: number,
+  ): void {
+    for (const directory in entriesByDirectory) {
+      for (const manualEntry of entriesByDirectory[directory]) {
+        const timestamp = new Date(manualEntry.Timestamp);
+        if (timestamp < startOfDay || timestamp > endOfDay) {
+          continue;
+        }
+        const key = this.getTimeKey(timestamp, viewGroupByMinutes);
+        const project = manualEntry.Project || "";
+        const comment = manualEntry.Comment || "";
+
+        // One row per slot and timer, however often the timer wrote
+        const exists = report.entries.some(
+          (e) =>
+            e.manual &&
+            e.key === key &&
+            e.project === project &&
+            e.comment === comment,
+        );
+        if (exists) {
+          continue;
+        }
+        report.entries.push({
+          key,
+          branch: MANUAL_BRANCH,
+          directory: "",
+          files: [],
+          fileDetails: [
+            { file: "", timestamp: manualEntry.Timestamp, kind: "manual" },
+          ],
+          comment,
+          project,
+          assignedBranch: MANUAL_BRANCH,
+          manual: true,
+        });
+      }
+    }
+  }
+
+  private mergePrivateEntriesIntoReport(
+    report: TimeReport,
+    entriesByDirectory: { [directory: string]: BatchFileEntry[] },
+    startOfDay: Date,
+    endOfDay: Date,
+    viewGroupByMinutes: number,
+  ): void {
+    for (const directory in entriesByDirectory) {
+      for (const privateEntry of entriesByDirectory[directory]) {
+        const timestamp = new Date(privateEntry.Timestamp);
+        if (timestamp < startOfDay || timestamp > endOfDay) {
+          continue;
+        }
+        // Anonymous time has no files, so one detail per slot marks it worked
+        const key = this.getTimeKey(timestamp, viewGroupByMinutes);
+        const exists = report.entries.some(
+          (e) => e.key === key && e.branch === PRIVATE_BRANCH,
+        );
+        if (exists) {
+          continue;
+        }
+        report.entries.push({
+          key,
+          branch: PRIVATE_BRANCH,
+          directory: "",
+          files: [],
+          fileDetails: [
+            {
+              file: "",
+              timestamp: privateEntry.Timestamp,
+              kind: privateEntry.Kind === "edit" ? "edit" : "save",
+            },
+          ],
+          comment: "",
+          project: "",
+          assignedBranch: "",
+        });
+      }
+    }
+  }
+
   private getTimeKey(date: Date, viewGroupByMinutes: number): string {
     const hours = String(date.getHours()).padStart(2, "0");
     const minutes = date.getMinutes();
@@ -322,4 +631,14 @@ export class BatchService {
     const minutesStr = String(groupedMinutes).padStart(2, "0");
     return `${hours}:${minutesStr}`;
   }
+
+  // Start of the local time slot the report groups this timestamp into
+  private getSlotStart(timestamp: number): number {
+    const date = new Date(timestamp);
+    const slotMinutes =
+      Math.floor(date.getMinutes() / this.config.viewGroupByMinutes) *
+      this.config.viewGroupByMinutes;
+    date.setMinutes(slotMinutes, 0, 0);
+    return date.getTime();
+  }
 }
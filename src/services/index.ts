@@ -1,2 +1,4 @@
+export { ActivityService } from "./activityService";
 export { BatchService } from "./batchService";
 export { GitService } from "./gitService";
+export { LanguageService } from "./languageService";
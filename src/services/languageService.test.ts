@@ -0,0 +1,92 @@
+import * as assert from "assert";
+import * as path from "path";
+import * as os from "os";
+import { LanguageService } from "./languageService";
+import { CoftConfig } from "../application/config";
+import { TimeEntry } from "../storage/batchRepository";
+
+function createTestConfig(testRoot: string): CoftConfig {
+  return {
+    root: testRoot,
+    queue: path.join(testRoot, "queue"),
+    queueBatch: path.join(testRoot, "queue_batch"),
+    queueBackup: path.join(testRoot, "queue_backup"),
+    operationQueue: path.join(testRoot, "operation_queue"),
+    operationQueueBackup: path.join(testRoot, "operation_queue_backup"),
+    data: path.join(testRoot, "data"),
+    backup: path.join(testRoot, "backup"),
+    intervalSeconds: 60,
+    viewGroupByMinutes: 15,
+    branchTaskUrl: "",
+    exportDir: "",
+    exportAgeDays: 90,
+    startOfWeek: "monday",
+    editThrottleSeconds: 30,
+    idleThresholdMinutes: 5,
+    outsideWorkspace: "repository",
+  };
+}
+
+function makeEntry(
+  key: string,
+  languages?: string[],
+  idle: boolean = false,
+): TimeEntry {
+  return {
+    key,
+    branch: "main",
+    directory: "/project",
+    files: [],
+    fileDetails: [],
+    comment: "",
+    project: "",
+    assignedBranch: "main",
+    idle,
+    languages,
+  };
+}
+
+suite("LanguageService Test Suite", () => {
+  let service: LanguageService;
+
+  setup(() => {
+    service = new LanguageService(
+      createTestConfig(path.join(os.tmpdir(), "coft-language-test")),
+    );
+  });
+
+  test("computeLanguageTimes counts a slot for its only language", () => {
+    const times = service.computeLanguageTimes([
+      makeEntry("09:00", ["yaml"]),
+      makeEntry("09:15", ["yaml"]),
+      makeEntry("09:30", ["terraform"]),
+    ]);
+    assert.deepStrictEqual(times, [
+      { language: "yaml", minutes: 30 },
+      { language: "terraform", minutes: 15 },
+    ]);
+  });
+
+  test("computeLanguageTimes splits a slot between its languages", () => {
+    const times = service.computeLanguageTimes([
+      makeEntry("09:00", ["yaml", "typescript", "terraform"]),
+    ]);
+    assert.deepStrictEqual(times, [
+      { language: "terraform", minutes: 5 },
+      { language: "typescript", minutes: 5 },
+      { language: "yaml", minutes: 5 },
+    ]);
+  });
+
+  test("computeLanguageTimes reports slots without languages as unknown", () => {
+    const times = service.computeLanguageTimes([makeEntry("09:00")]);
+    assert.deepStrictEqual(times, [{ language: "unknown", minutes: 15 }]);
+  });
+
+  test("computeLanguageTimes skips idle slots", () => {
+    const times = service.computeLanguageTimes([
+      makeEntry("09:00", ["yaml"], true),
+    ]);
+    assert.deepStrictEqual(times, []);
+  });
+});
@@ -0,0 +1,46 @@
+import { CoftConfig } from "../application/config";
+import { TimeEntry } from "../storage/batchRepository";
+
+export interface LanguageTime {
+  language: string;
+  minutes: number;
+}
+
+// Slots recorded before language IDs were captured
+export const UNKNOWN_LANGUAGE = "unknown";
+
+export class LanguageService {
+  private config: CoftConfig;
+
+  constructor(config: CoftConfig) {
+    this.config = config;
+  }
+
+  // Each worked slot's time is split evenly between the languages edited in it
+  computeLanguageTimes(entries: TimeEntry[]): LanguageTime[] {
+    const totals: { [language: string]: number } = {};
+    for (const entry of entries) {
+      // Manual timer time has no language to attribute it to
+      if (entry.idle || entry.manual) {
+        continue;
+      }
+      const languages =
+        entry.languages && entry.languages.length > 0
+          ? entry.languages
+          : [UNKNOWN_LANGUAGE];
+      const share = this.config.viewGroupByMinutes / languages.length;
+      for (const language of languages) {
+        totals[language] = (totals[language] || 0) + share;
+      }
+    }
+
+    return Object.keys(totals)
+      .map((language) => ({
+        language,
+        minutes: Math.round(totals[language]),
+      }))
+      .sort(
+        (a, b) => b.minutes - a.minutes || a.language.localeCompare(b.language),
+      );
+  }
+}
@@ -25,6 +25,9 @@ function createTestConfig(testRoot: string): CoftConfig {
     exportDir: "",
     exportAgeDays: 90,
     startOfWeek: "auto",
+    editThrottleSeconds: 30,
+    idleThresholdMinutes: 5,
+    outsideWorkspace: "repository",
   };
 }
 
@@ -97,6 +100,61 @@ suite("BatchRepository Test Suite", () => {
     assert.strictEqual(entries.length, 0);
   });
 
+  test("readBatchFiles should read journal segments line by line", async () => {
+    const lines = [
+      JSON.stringify({ filename: "a.ts", timestamp: 1, kind: "save" }),
+      JSON.stringify({ filename: "b.ts", timestamp: 2, kind: "edit" }),
+      '{"filename": "c.ts", "timest',
+    ];
+    await fs.writeFile(
+      path.join(testConfig.queueBatch, "journal_1_2_1.jsonl"),
+      lines.join("\n"),
+      "utf-8",
+    );
+
+    const entries = await repository.readBatchFiles();
+
+    assert.deepStrictEqual(
+      entries.map((e) => e.filename),
+      ["a.ts", "b.ts"],
+    );
+  });
+
+  test("coalesceSaves merges saves of a file within a slot", () => {
+    const slot = new Date(2024, 0, 15, 10, 0).getTime();
+    const minute = 60 * 1000;
+    const save = (
+      filename: string,
+      offset: number,
+      added?: number,
+    ): QueueEntry => ({
+      directory: "/workspace/project",
+      filename,
+      gitBranch: "main",
+      timestamp: slot + offset * minute,
+      kind: "save",
+      linesAdded: added,
+      linesRemoved: added === undefined ? undefined : 1,
+    });
+
+    const entries = service.coalesceSaves([
+      save("a.ts", 1, 2),
+      save("a.ts", 7, 3),
+      save("b.ts", 2),
+      save("a.ts", 4, 5),
+      save("a.ts", 16),
+      { ...save("a.ts", 5), kind: "edit" },
+    ]);
+
+    assert.strictEqual(entries.length, 4);
+    assert.strictEqual(entries[0].timestamp, slot + 7 * minute);
+    assert.strictEqual(entries[0].linesAdded, 10);
+    assert.strictEqual(entries[0].linesRemoved, 3);
+    assert.strictEqual(entries[1].filename, "b.ts");
+    assert.strictEqual(entries[2].timestamp, slot + 16 * minute);
+    assert.strictEqual(entries[3].kind, "edit");
+  });
+
   test("collectBatches should collect old batch files into date hierarchy", async () => {
     const batchesDir = path.join(testConfig.data, "batches");
 
@@ -224,6 +282,64 @@ suite("BatchRepository Test Suite", () => {
     assert.strictEqual(collected.main["/workspace/project1"].length, 2);
   });
 
+  test("collectBatches should drop entries a reprocessed batch repeated", async () => {
+    const batchesDir = path.join(testConfig.data, "batches");
+
+    const yesterday = new Date();
+    yesterday.setUTCDate(yesterday.getUTCDate() - 1);
+    yesterday.setUTCHours(10, 0, 0, 0);
+    const timestamp = yesterday.getTime();
+
+    const batch: BatchEntry = {
+      main: {
+        "/workspace/project1": [
+          { File: "src/app.ts", Timestamp: timestamp },
+          { File: "src/app.ts", Timestamp: timestamp, Kind: "edit" },
+        ],
+      },
+    };
+    for (const suffix of ["abc123", "def456"]) {
+      await fs.writeFile(
+        path.join(batchesDir, `batch_${timestamp}_${suffix}.json`),
+        JSON.stringify(batch, null, 2),
+        "utf-8",
+      );
+    }
+
+    // Also already in the day file from an earlier collection
+    const year = String(yesterday.getUTCFullYear());
+    const month = String(yesterday.getUTCMonth() + 1).padStart(2, "0");
+    const day = String(yesterday.getUTCDate()).padStart(2, "0");
+    const hierarchicalPath = path.join(batchesDir, year, month, `${day}.json`);
+    await fs.mkdir(path.dirname(hierarchicalPath), { recursive: true });
+    await fs.writeFile(hierarchicalPath, JSON.stringify(batch), "utf-8");
+
+    await service.collectAndMergeBatches();
+
+    const collected: BatchEntry = JSON.parse(
+      await fs.readFile(hierarchicalPath, "utf-8"),
+    );
+    assert.deepStrictEqual(collected, batch);
+  });
+
+  test("getBatchFilename depends only on the queue files and entries", () => {
+    const entries = [
+      { directory: "/p", filename: "a.ts", gitBranch: "main", timestamp: 5 },
+      { directory: "/p", filename: "b.ts", gitBranch: "main", timestamp: 9 },
+    ];
+    const name = service.getBatchFilename(["q1.jsonl", "q2.jsonl"], entries);
+
+    assert.match(name, /^batch_9_[0-9a-f]{16}\.json$/);
+    assert.strictEqual(
+      service.getBatchFilename(["q2.jsonl", "q1.jsonl"], entries),
+      name,
+    );
+    assert.notStrictEqual(
+      service.getBatchFilename(["q1.jsonl", "q3.jsonl"], entries),
+      name,
+    );
+  });
+
   test("collectBatches should skip directories and non-batch files", async () => {
     const batchesDir = path.join(testConfig.data, "batches");
 
@@ -1,12 +1,29 @@
 import * as fs from "fs/promises";
 import * as path from "path";
 import { CoftConfig } from "../application/config";
-import { QueueEntry, BatchEntry } from "./storage";
+import {
+  ActivityEventKind,
+  ActivityKind,
+  QueueEntry,
+  BatchEntry,
+} from "./storage";
+import { SEGMENT_EXTENSION } from "./queueRepository";
 import { Logger } from "../utils/logger";
 
 export interface FileDetail {
   file: string;
   timestamp: number;
+  kind?: ActivityKind;
+  languageId?: string;
+  linesAdded?: number;
+  linesRemoved?: number;
+}
+
+export interface ActivityEvent {
+  kind: ActivityEventKind;
+  timestamp: number;
+  // Window that recorded it; missing for events of older versions
+  window?: string;
 }
 
 export interface TimeEntry {
@@ -18,6 +35,13 @@ export interface TimeEntry {
   comment: string;
   project: string;
   assignedBranch: string;
+  idle?: boolean;
+  // Distinct language IDs of the slot's files, like files for paths
+  languages?: string[];
+  // Lines added plus removed by the slot's saves; ranks entries of a slot
+  linesChanged?: number;
+  // Logged with the manual timer; never competes with file-based entries
+  manual?: boolean;
 }
 
 export interface TimeReport {
@@ -26,6 +50,7 @@ export interface TimeReport {
   startOfDay?: string;
   endOfDay?: string;
   hasSavedReport?: boolean;
+  activityEvents?: ActivityEvent[];
 }
 
 export class BatchRepository {
@@ -46,7 +71,11 @@ export class BatchRepository {
 
       try {
         const content = await fs.readFile(filePath, "utf-8");
-        entries.push(JSON.parse(content) as QueueEntry);
+        if (file.endsWith(SEGMENT_EXTENSION)) {
+          entries.push(...this.parseSegment(file, content));
+        } else {
+          entries.push(JSON.parse(content) as QueueEntry);
+        }
       } catch (error) {
         this.logger.error(`Error reading batch file ${file}: ${error}`);
       }
@@ -55,6 +84,31 @@ export class BatchRepository {
     return entries;
   }
 
+  // One entry per line; a line cut off by a crash is skipped
+  private parseSegment(file: string, content: string): QueueEntry[] {
+    const entries: QueueEntry[] = [];
+    for (const line of content.split("\n")) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        entries.push(JSON.parse(line) as QueueEntry);
+      } catch {
+        this.logger.error(`Skipping unreadable line in ${file}`);
+      }
+    }
+    return entries;
+  }
+
+  // Removes a batch file that was written but never committed
+  async deleteBatch(filename: string): Promise<void> {
+    try {
+      await fs.unlink(path.join(this.config.data, "batches", filename));
+    } catch {
+      // Never written
+    }
+  }
+
   async saveBatch(grouped: BatchEntry, filename: string): Promise<void> {
     const batchFile = path.join("batches", filename);
     const targetPath = path.join(this.config.data, batchFile);
@@ -0,0 +1,158 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+import * as fs from "fs/promises";
+import * as path from "path";
+import * as os from "os";
+import { BranchCache } from "./branchCache";
+import { Logger } from "../utils/logger";
+
+suite("BranchCache Test Suite", () => {
+  let testDir: string;
+  let outputChannel: vscode.OutputChannel;
+  let logger: Logger;
+  let cache: BranchCache;
+
+  async function writeHead(gitDir: string, content: string): Promise<void> {
+    await fs.mkdir(gitDir, { recursive: true });
+    await fs.writeFile(path.join(gitDir, "HEAD"), `${content}\n`, "utf-8");
+  }
+
+  async function waitFor(
+    condition: () => Promise<boolean>,
+    timeoutMs: number = 2000,
+  ): Promise<boolean> {
+    const start = Date.now();
+    while (Date.now() - start < timeoutMs) {
+      if (await condition()) {
+        return true;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 50));
+    }
+    return false;
+  }
+
+  setup(async () => {
+    testDir = path.join(os.tmpdir(), `coft-branch-cache-test-${Date.now()}`);
+    await fs.mkdir(testDir, { recursive: true });
+    outputChannel = vscode.window.createOutputChannel("BranchCache Test");
+    logger = new Logger(outputChannel, true);
+    cache = new BranchCache(logger);
+  });
+
+  teardown(async () => {
+    cache.dispose();
+    try {
+      await fs.rm(testDir, { recursive: true, force: true });
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  test("getBranch reads the branch from .git/HEAD", async () => {
+    await writeHead(path.join(testDir, ".git"), "ref: refs/heads/feature/x");
+
+    const branch = await cache.getBranch(testDir);
+    assert.strictEqual(branch, "feature/x");
+  });
+
+  test("getBranch finds .git in a parent directory", async () => {
+    await writeHead(path.join(testDir, ".git"), "ref: refs/heads/main");
+    const nested = path.join(testDir, "src", "deep");
+    await fs.mkdir(nested, { recursive: true });
+
+    const branch = await cache.getBranch(nested);
+    assert.strictEqual(branch, "main");
+  });
+
+  test("getBranch reports a detached HEAD as a short SHA", async () => {
+    await writeHead(
+      path.join(testDir, ".git"),
+      "0123456789abcdef0123456789abcdef01234567",
+    );
+
+    const branch = await cache.getBranch(testDir);
+    assert.strictEqual(branch, "0123456");
+  });
+
+  test("getBranch follows a gitdir file to a worktree HEAD", async () => {
+    const worktreeGitDir = path.join(
+      testDir,
+      "main-repo",
+      ".git",
+      "worktrees",
+      "wt",
+    );
+    await writeHead(worktreeGitDir, "ref: refs/heads/hotfix");
+    const worktree = path.join(testDir, "wt");
+    await fs.mkdir(worktree, { recursive: true });
+    await fs.writeFile(
+      path.join(worktree, ".git"),
+      `gitdir: ${worktreeGitDir}\n`,
+      "utf-8",
+    );
+
+    const branch = await cache.getBranch(worktree);
+    assert.strictEqual(branch, "hotfix");
+  });
+
+  test("getBranch resolves a relative gitdir path", async () => {
+    await writeHead(
+      path.join(testDir, ".git", "modules", "sub"),
+      "ref: refs/heads/develop",
+    );
+    const submodule = path.join(testDir, "sub");
+    await fs.mkdir(submodule, { recursive: true });
+    await fs.writeFile(
+      path.join(submodule, ".git"),
+      "gitdir: ../.git/modules/sub\n",
+      "utf-8",
+    );
+
+    const branch = await cache.getBranch(submodule);
+    assert.strictEqual(branch, "develop");
+  });
+
+  test("findRepository returns the closest repository", async () => {
+    await writeHead(path.join(testDir, ".git"), "ref: refs/heads/main");
+    const nested = path.join(testDir, "vendor", "lib");
+    await writeHead(path.join(nested, ".git"), "ref: refs/heads/release");
+    const source = path.join(nested, "src");
+    await fs.mkdir(source, { recursive: true });
+
+    const repository = await cache.findRepository(source);
+    assert.strictEqual(repository?.root, nested);
+    assert.strictEqual(await cache.getBranch(source), "release");
+    assert.strictEqual(await cache.getBranch(testDir), "main");
+  });
+
+  test("findRepository returns null outside a repository", async () => {
+    const repository = await cache.findRepository(testDir);
+    assert.strictEqual(repository, null);
+  });
+
+  test("getBranch picks up a HEAD change", async () => {
+    const gitDir = path.join(testDir, ".git");
+    await writeHead(gitDir, "ref: refs/heads/main");
+    assert.strictEqual(await cache.getBranch(testDir), "main");
+
+    await writeHead(gitDir, "ref: refs/heads/feature");
+
+    const changed = await waitFor(
+      async () => (await cache.getBranch(testDir)) === "feature",
+    );
+    assert.ok(changed, "Expected the cached branch to be invalidated");
+  });
+
+  test("getBranch falls back to git after invalidation", async () => {
+    const gitDir = path.join(testDir, ".git");
+    await writeHead(gitDir, "ref: refs/heads/main");
+    assert.strictEqual(await cache.getBranch(testDir), "main");
+
+    cache.invalidate(gitDir);
+    await fs.rm(gitDir, { recursive: true, force: true });
+
+    // Without .git the lookup asks git itself, which fails outside a repo
+    const branch = await cache.getBranch(testDir);
+    assert.strictEqual(branch, undefined);
+  });
+});
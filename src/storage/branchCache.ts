@@ -0,0 +1,152 @@
+import { exec } from "child_process";
+import { promisify } from "util";
+import * as fsSync from "fs";
+import * as fs from "fs/promises";
+import * as path from "path";
+import { Logger } from "../utils/logger";
+
+const execAsync = promisify(exec);
+
+const SHORT_SHA_LENGTH = 7;
+
+export interface RepositoryLocation {
+  root: string;
+  gitDir: string;
+}
+
+interface CachedHead {
+  branch: string;
+  watcher: fsSync.FSWatcher;
+}
+
+export class BranchCache {
+  private logger: Logger;
+  // Keyed by git directory, so worktrees of one repository are cached apart
+  private heads = new Map<string, CachedHead>();
+
+  constructor(logger: Logger) {
+    this.logger = logger;
+  }
+
+  async getBranch(directory: string): Promise<string | undefined> {
+    const repository = await this.findRepository(directory);
+    if (repository) {
+      const { gitDir } = repository;
+      const cached = this.heads.get(gitDir);
+      if (cached) {
+        return cached.branch;
+      }
+
+      const branch = await this.readHead(gitDir);
+      if (branch) {
+        const watcher = this.watchHead(gitDir);
+        if (watcher) {
+          // A concurrent lookup may have cached the same HEAD meanwhile
+          this.invalidate(gitDir);
+          this.heads.set(gitDir, { branch, watcher });
+        }
+        return branch;
+      }
+    }
+
+    // No readable HEAD (unusual layout or not a repository): ask git
+    return this.execBranch(directory);
+  }
+
+  invalidate(gitDir: string): void {
+    const cached = this.heads.get(gitDir);
+    if (cached) {
+      cached.watcher.close();
+      this.heads.delete(gitDir);
+      this.logger.debug(`Branch cache invalidated: ${gitDir}`);
+    }
+  }
+
+  dispose(): void {
+    for (const gitDir of [...this.heads.keys()]) {
+      this.invalidate(gitDir);
+    }
+  }
+
+  async findRepository(directory: string): Promise<RepositoryLocation | null> {
+    let current = path.resolve(directory);
+    while (true) {
+      const dotGit = path.join(current, ".git");
+      try {
+        const stat = await fs.stat(dotGit);
+        if (stat.isDirectory()) {
+          return { root: current, gitDir: dotGit };
+        }
+        // Worktrees and submodules use a ".git" file pointing at the git dir
+        const content = await fs.readFile(dotGit, "utf-8");
+        const match = content.match(/^gitdir:\s*(.+)$/m);
+        return match
+          ? { root: current, gitDir: path.resolve(current, match[1].trim()) }
+          : null;
+      } catch {
+        // No .git here, keep walking up
+      }
+
+      const parent = path.dirname(current);
+      if (parent === current) {
+        return null;
+      }
+      current = parent;
+    }
+  }
+
+  private async readHead(gitDir: string): Promise<string | undefined> {
+    try {
+      const content = (
+        await fs.readFile(path.join(gitDir, "HEAD"), "utf-8")
+      ).trim();
+      const ref = content.match(/^ref:\s*(.+)$/);
+      if (ref) {
+        return ref[1].replace(/^refs\/heads\//, "");
+      }
+      // Detached HEAD holds the commit SHA itself
+      if (/^[0-9a-f]{40,64}$/i.test(content)) {
+        return content.substring(0, SHORT_SHA_LENGTH);
+      }
+    } catch {
+      // Fall through to the exec fallback
+    }
+    return undefined;
+  }
+
+  private watchHead(gitDir: string): fsSync.FSWatcher | null {
+    try {
+      // Watch the directory: git replaces HEAD through a rename of HEAD.lock
+      const watcher = fsSync.watch(gitDir, (_event, filename) => {
+        if (!filename || filename.toString() === "HEAD") {
+          this.invalidate(gitDir);
+        }
+      });
+      watcher.on("error", () => this.invalidate(gitDir));
+      return watcher;
+    } catch (error) {
+      // Without a watcher the entry could go stale, so it is not cached
+      this.logger.debug(`Unable to watch ${gitDir}: ${error}`);
+      return null;
+    }
+  }
+
+  private async execBranch(directory: string): Promise<string | undefined> {
+    try {
+      const { stdout } = await execAsync("git rev-parse --abbrev-ref HEAD", {
+        cwd: directory,
+      });
+      const branch = stdout.trim();
+      if (branch !== "HEAD") {
+        return branch;
+      }
+      const { stdout: sha } = await execAsync(
+        `git rev-parse --short=${SHORT_SHA_LENGTH} HEAD`,
+        { cwd: directory },
+      );
+      return sha.trim();
+    } catch {
+      return undefined;
+    }
+  }
+}
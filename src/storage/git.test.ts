@@ -32,6 +32,9 @@ suite("Git Test Suite", () => {
       exportDir: "",
       exportAgeDays: 90,
       startOfWeek: "auto",
+      editThrottleSeconds: 30,
+      idleThresholdMinutes: 5,
+      outsideWorkspace: "repository",
     };
 
     await fs.mkdir(testConfig.data, { recursive: true });
@@ -440,4 +443,33 @@ suite("Git Test Suite", () => {
     // No reports directory exists — should not throw
     await git.exportTimeReports();
   });
+
+  test("getRepositoryRoot resolves the enclosing repository of a subdirectory", async () => {
+    const git = new GitManager(testConfig, logger, "1.0.0");
+    await git.initialize();
+
+    const nested = path.join(testConfig.data, "nested", "deeper");
+    await fs.mkdir(nested, { recursive: true });
+
+    const root = await git.getRepositoryRoot(nested);
+    assert.strictEqual(root, path.resolve(testConfig.data));
+  });
+
+  test("getRepositoryRoot returns undefined outside a repository", async () => {
+    const git = new GitManager(testConfig, logger, "1.0.0");
+    const looseDir = path.join(testRoot, "loose");
+    await fs.mkdir(looseDir, { recursive: true });
+
+    const root = await git.getRepositoryRoot(looseDir);
+    assert.strictEqual(root, undefined);
+  });
+
+  test("getBranch returns undefined outside a repository", async () => {
+    const git = new GitManager(testConfig, logger, "1.0.0");
+    const looseDir = path.join(testRoot, "loose");
+    await fs.mkdir(looseDir, { recursive: true });
+
+    const branch = await git.getBranch(looseDir);
+    assert.strictEqual(branch, undefined);
+  });
 });
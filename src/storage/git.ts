@@ -4,6 +4,7 @@ import * as fs from "fs/promises";
 import * as path from "path";
 import * as vscode from "vscode";
 import { CoftConfig } from "../application/config";
+import { BranchCache } from "./branchCache";
 import { GitRepository } from "./gitRepository";
 import { GitService } from "../services/gitService";
 import { Logger } from "../utils/logger";
@@ -16,6 +17,7 @@ export class GitManager {
   private extensionVersion: string;
   private gitRepository: GitRepository;
   private gitService: GitService;
+  private branchCache: BranchCache;
 
   constructor(config: CoftConfig, logger: Logger, extensionVersion: string) {
     this.config = config;
@@ -23,6 +25,7 @@ export class GitManager {
     this.extensionVersion = extensionVersion;
     this.gitRepository = new GitRepository(config);
     this.gitService = new GitService(config, logger);
+    this.branchCache = new BranchCache(logger);
   }
 
   async initialize(): Promise<void> {
@@ -115,19 +118,32 @@ export class GitManager {
     }
   }
 
-  async getBranch(
-    workspaceFolder: vscode.WorkspaceFolder,
-  ): Promise<string | undefined> {
+  // Whether any commit touched the path, even if it was moved since
+  async isCommitted(relativePath: string): Promise<boolean> {
     try {
-      const { stdout } = await execAsync("git rev-parse --abbrev-ref HEAD", {
-        cwd: workspaceFolder.uri.fsPath,
-      });
-      return stdout.trim();
+      const { stdout } = await this.execGit(
+        `log --format=%H -n 1 -- "${relativePath}"`,
+      );
+      return stdout.trim().length > 0;
     } catch {
-      return undefined;
+      // No commits yet
+      return false;
     }
   }
 
+  async getBranch(directory: string): Promise<string | undefined> {
+    return this.branchCache.getBranch(directory);
+  }
+
+  async getRepositoryRoot(directory: string): Promise<string | undefined> {
+    const repository = await this.branchCache.findRepository(directory);
+    return repository?.root;
+  }
+
+  dispose(): void {
+    this.branchCache.dispose();
+  }
+
   private async ensureBackupRepo(): Promise<void> {
     const bareGitDir = path.join(this.config.backup, "HEAD");
 
@@ -11,7 +11,12 @@ export class GitRepository {
 
   async writeGitignore(): Promise<void> {
     const gitignorePath = path.join(this.config.data, ".gitignore");
-    await fs.writeFile(gitignorePath, ".lock\n.last-housekeeping\n", "utf-8");
+    // ".lock.*" are the lock's temporary files
+    await fs.writeFile(
+      gitignorePath,
+      ".lock\n.lock.*\n.last-housekeeping\n",
+      "utf-8",
+    );
   }
 
   async writeHousekeeping(date: string): Promise<void> {
@@ -1,9 +1,12 @@
 export { BatchRepository } from "./batchRepository";
 export { GitRepository } from "./gitRepository";
+export { ManualTimerRepository } from "./manualTimerRepository";
 export { OperationRepository } from "./operationRepository";
 export { ProjectRepository } from "./projectRepository";
 export { QueueRepository } from "./queueRepository";
 export { TimeReportRepository } from "./timeReportRepository";
+export { TrackingStateRepository } from "./trackingStateRepository";
 export { GitManager } from "./git";
 export { StorageManager } from "./storage";
 export { FileLock } from "./lock";
+export { BranchCache } from "./branchCache";
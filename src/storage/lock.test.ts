@@ -3,7 +3,7 @@ import * as vscode from "vscode";
 import * as fs from "fs/promises";
 import * as path from "path";
 import * as os from "os";
-import { FileLock } from "./lock";
+import { FileLock, LockRecord } from "./lock";
 import { Logger } from "../utils/logger";
 
 suite("Lock Test Suite", () => {
@@ -87,14 +87,118 @@ suite("Lock Test Suite", () => {
     await lock.release();
   });
 
-  test("FileLock should store current PID in lock file", async () => {
+  test("FileLock should store host, PID and lease in lock file", async () => {
     const lock = new FileLock(testDir, logger);
     await lock.acquire(1000);
 
     const lockPath = path.join(testDir, ".lock");
-    const content = await fs.readFile(lockPath, "utf-8");
-    assert.strictEqual(content, String(process.pid));
+    const record: LockRecord = JSON.parse(await fs.readFile(lockPath, "utf-8"));
+    assert.strictEqual(record.hostname, os.hostname());
+    assert.strictEqual(record.pid, process.pid);
+    assert.ok(record.instanceId);
+    assert.strictEqual(record.leaseExpiresAt, record.heartbeatAt + 30000);
 
     await lock.release();
   });
+
+  function writeRecord(record: Partial<LockRecord>): Promise<void> {
+    const now = Date.now();
+    return fs.writeFile(
+      path.join(testDir, ".lock"),
+      JSON.stringify({
+        hostname: "other-host",
+        // Means nothing on another host
+        pid: 999999999,
+        instanceId: "other-instance",
+        acquiredAt: now,
+        heartbeatAt: now,
+        leaseExpiresAt: now + 30000,
+        ...record,
+      }),
+      "utf-8",
+    );
+  }
+
+  test("FileLock should respect a live lease whatever its PID", async () => {
+    await writeRecord({});
+
+    const lock = new FileLock(testDir, logger);
+    assert.strictEqual(await lock.acquire(200), false);
+    assert.strictEqual((await lock.readHolder())?.hostname, "other-host");
+  });
+
+  test("FileLock should take over a lock whose lease expired", async () => {
+    await writeRecord({ heartbeatAt: 1000, leaseExpiresAt: 31000 });
+
+    const lock = new FileLock(testDir, logger);
+    assert.strictEqual(await lock.acquire(1000), true);
+    assert.strictEqual((await lock.readHolder())?.pid, process.pid);
+
+    await lock.release();
+  });
+
+  test("FileLock should renew its lease while held", async () => {
+    const lock = new FileLock(testDir, logger, 300);
+    await lock.acquire(1000);
+    const first = await lock.readHolder();
+
+    await new Promise((resolve) => setTimeout(resolve, 450));
+    const renewed = await lock.readHolder();
+    await lock.release();
+
+    assert.ok(renewed!.heartbeatAt > first!.heartbeatAt);
+    assert.strictEqual(renewed!.acquiredAt, first!.acquiredAt);
+    assert.ok(lock.isStale(renewed!, renewed!.heartbeatAt + 300));
+    assert.ok(!lock.isStale(renewed!, renewed!.heartbeatAt + 299));
+  });
+
+  test("FileLock should not release a lock taken over by another instance", async () => {
+    const lock = new FileLock(testDir, logger);
+    await lock.acquire(1000);
+    await writeRecord({});
+
+    await lock.release();
+
+    const holder = await lock.readHolder();
+    assert.strictEqual(holder?.instanceId, "other-instance");
+  });
+
+  test("FileLock should report a lease taken over by another instance", async () => {
+    const lock = new FileLock(testDir, logger, 300);
+    await lock.acquire(1000);
+    assert.strictEqual(lock.isLeaseLost(), false);
+    await writeRecord({});
+
+    await new Promise((resolve) => setTimeout(resolve, 250));
+
+    assert.strictEqual(lock.isLeaseLost(), true);
+    assert.strictEqual(await lock.isHeld(), false);
+    assert.strictEqual((await lock.readHolder())?.instanceId, "other-instance");
+    await lock.release();
+  });
+
+  test("FileLock should put back a lock taken since it was judged stale", async () => {
+    const stale = {
+      hostname: "other-host",
+      pid: 999999999,
+      instanceId: "dead-instance",
+      acquiredAt: 1000,
+      heartbeatAt: 1000,
+      leaseExpiresAt: 31000,
+    };
+    await writeRecord({});
+
+    const lock = new FileLock(testDir, logger);
+    await (lock as any).removeStale(stale);
+
+    assert.strictEqual((await lock.readHolder())?.instanceId, "other-instance");
+    assert.deepStrictEqual(await fs.readdir(testDir), [".lock"]);
+  });
+
+  test("FileLock should not remove a lock file that is still being written", async () => {
+    await fs.writeFile(path.join(testDir, ".lock"), "", "utf-8");
+
+    const lock = new FileLock(testDir, logger);
+    assert.strictEqual(await lock.acquire(200), false);
+  });
 });
@@ -1,62 +1,124 @@
+import * as crypto from "crypto";
 import * as fs from "fs/promises";
+import * as os from "os";
 import * as path from "path";
 import { Logger } from "../utils/logger";
+import { isProcessRunning } from "../utils/process";
+
+// Contents of the lock file. The data root can be shared between hosts and
+// containers, where a PID says nothing about another machine's processes,
+// so a holder is only considered gone once its lease has run out
+export interface LockRecord {
+  hostname: string;
+  pid: number;
+  // Empty for a lock written by an older version as a bare PID
+  instanceId: string;
+  acquiredAt: number;
+  heartbeatAt: number;
+  leaseExpiresAt: number;
+}
 
 export class FileLock {
   private lockFile: string;
   private logger: Logger;
+  private instanceId: string = crypto.randomUUID();
+  // A holder renews its lease a few times per lease period
+  private leaseMs: number;
+  private heartbeat: NodeJS.Timeout | null = null;
+  private acquiredAt: number = 0;
+  // Set when a renewal finds the lock gone or taken over, until the next
+  // acquisition
+  private leaseLost: boolean = false;
 
-  constructor(lockDir: string, logger: Logger) {
-    this.lockFile = path.join(lockDir, ".lock");
+  constructor(
+    lockDir: string,
+    logger: Logger,
+    leaseMs: number = 30000,
+    fileName: string = ".lock",
+  ) {
+    this.lockFile = path.join(lockDir, fileName);
     this.logger = logger;
+    this.leaseMs = leaseMs;
   }
 
   async acquire(timeoutMs: number = 1000): Promise<boolean> {
     const startTime = Date.now();
 
     while (Date.now() - startTime < timeoutMs) {
+      try {
+        if (await this.tryAcquire()) {
+          return true;
+        }
+      } catch (error) {
+        this.logger.error(`Error acquiring lock: ${error}`);
+        return false;
+      }
+
+      // Wait a bit before retrying
+      await this.sleep(100);
+    }
+
+    this.logger.info("Failed to acquire lock within timeout");
+    return false;
+  }
+
+  // A single attempt, taking over a stale lock; throws on errors other than
+  // the lock being held
+  async tryAcquire(): Promise<boolean> {
+    for (let attempt = 0; attempt < 2; attempt++) {
       try {
         // Try to create lock file exclusively
-        await fs.writeFile(this.lockFile, String(process.pid), { flag: "wx" });
+        this.acquiredAt = Date.now();
+        await fs.writeFile(
+          this.lockFile,
+          JSON.stringify(this.createRecord(this.acquiredAt)),
+          { flag: "wx" },
+        );
+        this.leaseLost = false;
+        this.startHeartbeat();
         this.logger.debug("Lock acquired");
         return true;
       } catch (error: any) {
-        if (error.code === "EEXIST") {
-          // Lock file exists, check if it's stale
-          try {
-            const content = await fs.readFile(this.lockFile, "utf-8");
-            const pid = parseInt(content, 10);
-
-            // Check if process is still running
-            if (!this.isProcessRunning(pid)) {
-              // Stale lock, remove it
-              await fs.unlink(this.lockFile);
-              continue;
-            }
-          } catch {
-            // If we can't read the lock file, try to remove it
-            try {
-              await fs.unlink(this.lockFile);
-            } catch {
-              // Ignore errors
-            }
-          }
-
-          // Wait a bit before retrying
-          await this.sleep(100);
-        } else {
-          this.logger.error(`Error acquiring lock: ${error}`);
-          return false;
+        if (error.code !== "EEXIST") {
+          throw error;
         }
       }
-    }
 
-    this.logger.info("Failed to acquire lock within timeout");
+      // Lock file exists, check if it's stale
+      const holder = await this.readHolder();
+      const stale = holder
+        ? this.isStale(holder)
+        : await this.isUnreadableLockExpired();
+      if (!stale) {
+        return false;
+      }
+      await this.removeStale(holder);
+    }
     return false;
   }
 
+  // False once another instance took over after our lease ran out
+  async isHeld(): Promise<boolean> {
+    const holder = await this.readHolder();
+    return holder !== null && this.isOwnedBy(holder);
+  }
+
+  // The holder checks this before each step it must not do without the lock
+  isLeaseLost(): boolean {
+    return this.leaseLost;
+  }
+
   async release(): Promise<void> {
+    this.stopHeartbeat();
     try {
+      // A lock taken over after our lease ran out is not ours to remove
+      const holder = await this.readHolder();
+      if (holder && holder.instanceId !== this.instanceId) {
+        this.logger.error(
+          `Lock was taken over by ${this.describeHolder(holder)}, not releasing it`,
+        );
+        return;
+      }
       await fs.unlink(this.lockFile);
       this.logger.debug("Lock released");
     } catch (error) {
@@ -64,13 +126,163 @@ export class FileLock {
     }
   }
 
-  private isProcessRunning(pid: number): boolean {
+  // Null when nobody holds the lock or the file cannot be read
+  readHolder(): Promise<LockRecord | null> {
+    return this.readRecord(this.lockFile);
+  }
+
+  isStale(holder: LockRecord, now: number = Date.now()): boolean {
+    if (!holder.instanceId) {
+      // Older versions only ran on this host, where the PID still tells
+      return !isProcessRunning(holder.pid);
+    }
+    return holder.leaseExpiresAt <= now;
+  }
+
+  describeHolder(holder: LockRecord): string {
+    return holder.instanceId
+      ? `${holder.hostname} (PID ${holder.pid}, instance ${holder.instanceId})`
+      : `an older version (PID ${holder.pid})`;
+  }
+
+  private async readRecord(file: string): Promise<LockRecord | null> {
+    let content: string;
+    let modifiedAt: number;
+    try {
+      content = await fs.readFile(file, "utf-8");
+      modifiedAt = (await fs.stat(file)).mtimeMs;
+    } catch {
+      return null;
+    }
+
+    if (/^\d+$/.test(content.trim())) {
+      return {
+        hostname: "",
+        pid: parseInt(content, 10),
+        instanceId: "",
+        acquiredAt: modifiedAt,
+        heartbeatAt: modifiedAt,
+        leaseExpiresAt: modifiedAt + this.leaseMs,
+      };
+    }
+    try {
+      const record = JSON.parse(content);
+      return typeof record.instanceId === "string" &&
+        typeof record.leaseExpiresAt === "number"
+        ? record
+        : null;
+    } catch {
+      return null;
+    }
+  }
+
+  // A lock file is empty for a moment while its holder writes it, so an
+  // unreadable one only counts as stale once a lease period has passed
+  private async isUnreadableLockExpired(): Promise<boolean> {
     try {
-      // Sending signal 0 checks if process exists without killing it
-      process.kill(pid, 0);
+      const stat = await fs.stat(this.lockFile);
+      return stat.mtimeMs + this.leaseMs <= Date.now();
+    } catch {
       return true;
+    }
+  }
+
+  private isOwnedBy(holder: LockRecord): boolean {
+    return holder.instanceId === this.instanceId;
+  }
+
+  private createRecord(now: number): LockRecord {
+    return {
+      hostname: os.hostname(),
+      pid: process.pid,
+      instanceId: this.instanceId,
+      acquiredAt: this.acquiredAt,
+      heartbeatAt: now,
+      leaseExpiresAt: now + this.leaseMs,
+    };
+  }
+
+  // Only one instance can rename the lock file away. What it claimed may no
+  // longer be the record judged stale (another instance took the lock over,
+  // or finished writing it, in the meantime); such a lock is put back
+  private async removeStale(holder: LockRecord | null): Promise<void> {
+    const claimFile = `${this.lockFile}.${this.instanceId}.claim`;
+    try {
+      await fs.rename(this.lockFile, claimFile);
     } catch {
-      return false;
+      // Removed or claimed by another instance
+      return;
+    }
+
+    const claimed = await this.readRecord(claimFile);
+    const unchanged = holder
+      ? claimed !== null &&
+        claimed.instanceId === holder.instanceId &&
+        claimed.heartbeatAt === holder.heartbeatAt
+      : claimed === null;
+    try {
+      if (unchanged) {
+        this.logger.info(
+          holder
+            ? `Removing stale lock of ${this.describeHolder(holder)}`
+            : "Removing unreadable lock file",
+        );
+      } else {
+        // Never replaces a lock created since; its holder then finds its
+        // lease lost
+        await fs.link(claimFile, this.lockFile);
+      }
+    } catch (error) {
+      this.logger.error(`Error restoring a lock taken meanwhile: ${error}`);
+    } finally {
+      await fs.unlink(claimFile).catch(() => undefined);
+    }
+  }
+
+  private startHeartbeat(): void {
+    this.stopHeartbeat();
+    this.heartbeat = setInterval(
+      () => this.renewLease(),
+      Math.max(this.leaseMs / 3, 100),
+    );
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = null;
+    }
+  }
+
+  private async renewLease(): Promise<void> {
+    try {
+      // Others take the lock over once the lease ran out, so a renewal this
+      // late could overwrite their lock; the holder is told to stop instead
+      const holder = await this.readHolder();
+      if (
+        !holder ||
+        !this.isOwnedBy(holder) ||
+        holder.leaseExpiresAt - Date.now() < this.leaseMs / 3
+      ) {
+        this.logger.error("Lock lease was lost, stopping its heartbeat");
+        this.leaseLost = true;
+        this.stopHeartbeat();
+        return;
+      }
+      const tempFile = `${this.lockFile}.${this.instanceId}`;
+      await fs.writeFile(
+        tempFile,
+        JSON.stringify(this.createRecord(Date.now())),
+        "utf-8",
+      );
+      if (!this.heartbeat) {
+        // Released meanwhile; renaming would bring the lock back
+        await fs.unlink(tempFile);
+        return;
+      }
+      await fs.rename(tempFile, this.lockFile);
+    } catch (error) {
+      this.logger.error(`Error renewing lock lease: ${error}`);
     }
   }
 
@@ -0,0 +1,69 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import { CoftConfig } from "../application/config";
+import { Logger } from "../utils/logger";
+
+export interface ManualTimerState {
+  project: string;
+  comment: string;
+  startedAt: number;
+}
+
+export const MANUAL_TIMER_FILE = "manual-timer.json";
+
+export class ManualTimerRepository {
+  private config: CoftConfig;
+  private logger: Logger;
+
+  constructor(config: CoftConfig, logger: Logger) {
+    this.config = config;
+    this.logger = logger;
+  }
+
+  // Like the tracking state, the running timer is machine-local and shared
+  // by all windows, so it survives closing the window that started it
+  getStatePath(): string {
+    return path.join(this.config.root, MANUAL_TIMER_FILE);
+  }
+
+  // Null when no timer is running
+  async readState(): Promise<ManualTimerState | null> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.getStatePath(), "utf-8");
+    } catch {
+      return null;
+    }
+    try {
+      const parsed = JSON.parse(content);
+      if (
+        typeof parsed.project !== "string" ||
+        typeof parsed.startedAt !== "number"
+      ) {
+        this.logger.error(`${MANUAL_TIMER_FILE} is incomplete, ignoring`);
+        return null;
+      }
+      return {
+        project: parsed.project,
+        comment: typeof parsed.comment === "string" ? parsed.comment : "",
+        startedAt: parsed.startedAt,
+      };
+    } catch (error) {
+      this.logger.error(`Error reading ${MANUAL_TIMER_FILE}: ${error}`);
+      return null;
+    }
+  }
+
+  async saveState(state: ManualTimerState): Promise<void> {
+    const statePath = this.getStatePath();
+    // Other windows read this file on every tick, so it is replaced atomically
+    const tempPath = `${statePath}.${process.pid}.tmp`;
+    await fs.mkdir(path.dirname(statePath), { recursive: true });
+    await fs.writeFile(tempPath, JSON.stringify(state, null, 2), "utf-8");
+    await fs.rename(tempPath, statePath);
+  }
+
+  async clearState(): Promise<void> {
+    await fs.rm(this.getStatePath(), { force: true });
+  }
+}
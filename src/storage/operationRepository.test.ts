@@ -24,6 +24,9 @@ function createTestConfig(testRoot: string): CoftConfig {
     exportDir: "",
     exportAgeDays: 90,
     startOfWeek: "monday",
+    editThrottleSeconds: 30,
+    idleThresholdMinutes: 5,
+    outsideWorkspace: "repository",
   };
 }
 
@@ -118,6 +121,31 @@ suite("OperationRepository Test Suite", () => {
     assert.strictEqual((ops[0].request as any).type, "invalid");
   });
 
+  test("readPendingOperations reports why a request is invalid", async () => {
+    await fs.writeFile(
+      path.join(testConfig.operationQueue, "0001_bad.json"),
+      JSON.stringify({ type: "projectChange", action: "add", project: "A" }),
+      "utf-8",
+    );
+    const ops = await repository.readPendingOperations();
+    assert.deepStrictEqual(ops[0].request, {
+      type: "invalid",
+      reason: "Invalid request: projectChange add is missing branch, directory",
+    });
+  });
+
+  test("addOperation stamps the current version", async () => {
+    await repository.addOperation({ type: "processBatch" });
+    const files = await fs.readdir(testConfig.operationQueue);
+    const saved = JSON.parse(
+      await fs.readFile(
+        path.join(testConfig.operationQueue, files[0]),
+        "utf-8",
+      ),
+    );
+    assert.strictEqual(saved.version, 1);
+  });
+
   test("deleteOperation removes the file", async () => {
     const request: OperationRequest = { type: "processBatch" };
     await repository.addOperation(request);
@@ -144,4 +172,141 @@ suite("OperationRepository Test Suite", () => {
     const ops = await repository.readPendingOperations();
     assert.strictEqual(ops.length, 0);
   });
+
+  test("moveToBackup records the failure next to the request", async () => {
+    await repository.addOperation({ type: "processBatch" });
+    const [file] = await fs.readdir(testConfig.operationQueue);
+
+    await repository.moveToBackup(file, {
+      error: "Error: disk full",
+      failedAt: 12345,
+      attempts: 5,
+    });
+
+    assert.deepStrictEqual(await fs.readdir(testConfig.operationQueue), []);
+    const failed = await repository.readFailedOperations();
+    assert.deepStrictEqual(failed, [
+      {
+        file,
+        request: { type: "processBatch", version: 1 },
+        failure: { error: "Error: disk full", failedAt: 12345, attempts: 5 },
+      },
+    ]);
+  });
+
+  test("retry state is kept next to the request until it is deleted", async () => {
+    await repository.addOperation({ type: "processBatch" });
+    const [file] = await fs.readdir(testConfig.operationQueue);
+    assert.strictEqual(await repository.readRetryState(file), null);
+
+    const state = {
+      attempts: [{ at: 1000, error: "Error: disk full" }],
+      nextAttemptAt: 11000,
+    };
+    await repository.writeRetryState(file, state);
+    assert.deepStrictEqual(await repository.readRetryState(file), state);
+    // The sidecar is not taken for a request
+    assert.strictEqual((await repository.readPendingOperations()).length, 1);
+
+    await repository.deleteOperation(file);
+    assert.deepStrictEqual(await fs.readdir(testConfig.operationQueue), []);
+  });
+
+  test("moveToBackup drops the retry state", async () => {
+    await repository.addOperation({ type: "processBatch" });
+    const [file] = await fs.readdir(testConfig.operationQueue);
+    await repository.writeRetryState(file, {
+      attempts: [{ at: 1000, error: "Error: disk full" }],
+      nextAttemptAt: 11000,
+    });
+
+    await repository.moveToBackup(file, {
+      error: "Error: disk full",
+      failedAt: 12345,
+      attempts: 2,
+    });
+
+    assert.deepStrictEqual(await fs.readdir(testConfig.operationQueue), []);
+  });
+
+  test("addOperation returns the id of the request file", async () => {
+    const id = await repository.addOperation({ type: "processBatch" });
+    const files = await fs.readdir(testConfig.operationQueue);
+    assert.deepStrictEqual(files, [`${id}.json`]);
+    assert.strictEqual(repository.getOperationId(files[0]), id);
+  });
+
+  test("waitForResult returns a recorded result once", async () => {
+    const id = await repository.addOperation({ type: "processBatch" });
+    await repository.recordResult(`${id}.json`, "failed", "Error: disk full");
+
+    const result = await repository.waitForResult(id, 1000);
+    assert.strictEqual(result?.id, id);
+    assert.strictEqual(result?.status, "failed");
+    assert.strictEqual(result?.error, "Error: disk full");
+    assert.strictEqual(await repository.waitForResult(id, 0), null);
+  });
+
+  test("waitForResult returns null while the operation is pending", async () => {
+    const id = await repository.addOperation({ type: "processBatch" });
+    const started = Date.now();
+    assert.strictEqual(await repository.waitForResult(id, 300), null);
+    assert.ok(Date.now() - started >= 300);
+  });
+
+  test("pruneResults removes only old results", async () => {
+    await repository.recordResult("1_old.json", "committed");
+    await repository.recordResult("2_new.json", "committed");
+    const resultsDir = path.join(testRoot, "operation_results");
+    const old = new Date(Date.now() - 2 * 60 * 60 * 1000);
+    await fs.utimes(path.join(resultsDir, "1_old.json"), old, old);
+
+    await repository.pruneResults(60 * 60 * 1000);
+
+    assert.deepStrictEqual(await fs.readdir(resultsDir), ["2_new.json"]);
+  });
+
+  test("readFailedOperations returns empty array when directory does not exist", async () => {
+    const failed = await repository.readFailedOperations();
+    assert.deepStrictEqual(failed, []);
+  });
+
+  test("retryFailedOperation moves the request back into the queue", async () => {
+    await repository.addOperation({ type: "housekeeping" });
+    const [file] = await fs.readdir(testConfig.operationQueue);
+    await repository.moveToBackup(file, {
+      error: "Error",
+      failedAt: 1,
+      attempts: 5,
+    });
+
+    await repository.retryFailedOperation(file);
+
+    assert.deepStrictEqual(
+      await fs.readdir(testConfig.operationQueueBackup),
+      [],
+    );
+    const ops = await repository.readPendingOperations();
+    assert.deepStrictEqual(ops, [
+      { file, request: { type: "housekeeping", version: 1 } },
+    ]);
+  });
+
+  test("discardFailedOperation deletes the request and its failure", async () => {
+    await repository.addOperation({ type: "housekeeping" });
+    const [file] = await fs.readdir(testConfig.operationQueue);
+    await repository.moveToBackup(file, {
+      error: "Error",
+      failedAt: 1,
+      attempts: 5,
+    });
+
+    await repository.discardFailedOperation(file);
+
+    assert.deepStrictEqual(
+      await fs.readdir(testConfig.operationQueueBackup),
+      [],
+    );
+    assert.deepStrictEqual(await fs.readdir(testConfig.operationQueue), []);
+  });
 });
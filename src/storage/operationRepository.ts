@@ -1,9 +1,34 @@
 import * as fs from "fs/promises";
 import * as path from "path";
 import { CoftConfig } from "../application/config";
-import { OperationRequest } from "../types/operation";
+import {
+  FailedOperation,
+  OPERATION_REQUEST_VERSION,
+  OperationFailure,
+  OperationRequest,
+  OperationResult,
+  OperationRetryState,
+  OperationStatus,
+  validateOperationRequest,
+} from "../types/operation";
 import { Logger } from "../utils/logger";
 
+// Sidecar next to a backed-up request holding its OperationFailure
+const FAILURE_SUFFIX = ".failure.json";
+
+// Sidecar next to a queued request holding its OperationRetryState; it does
+// not end in .json so it is never read as a request
+const RETRY_SUFFIX = ".retry";
+
+// Results live in the root next to the queues; a result is removed once its
+// caller read it, and unread ones by pruneResults
+const RESULTS_DIRECTORY = "operation_results";
+const RESULT_POLL_MS = 200;
+
+// Request files sort by their timestamp, which therefore never repeats within
+// a process: the processor relies on the order to find the newest request
+let lastTimestamp = 0;
+
 export class OperationRepository {
   private config: CoftConfig;
   private logger: Logger;
@@ -27,21 +52,36 @@ export class OperationRepository {
     const operations: { file: string; request: OperationRequest }[] = [];
 
     for (const file of requestFiles) {
-      const filePath = path.join(this.config.operationQueue, file);
-      try {
-        const content = await fs.readFile(filePath, "utf-8");
-        const request: OperationRequest = JSON.parse(content);
-        operations.push({ file, request });
-      } catch (error) {
-        this.logger.error(`Error reading operation request ${file}: ${error}`);
-        // Treat invalid JSON as an invalid request that will fail processing
-        operations.push({ file, request: { type: "invalid" } });
+      const request = await this.readRequest(
+        path.join(this.config.operationQueue, file),
+      );
+      if (request.type === "invalid") {
+        this.logger.error(`Operation request ${file}: ${request.reason}`);
       }
+      operations.push({ file, request });
     }
 
     return operations;
   }
 
+  // A file that cannot be read or fails validation becomes an invalid
+  // request carrying the reason, so it is backed up rather than retried
+  private async readRequest(filePath: string): Promise<OperationRequest> {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(await fs.readFile(filePath, "utf-8"));
+    } catch (error) {
+      return {
+        type: "invalid",
+        reason: `Invalid request: unreadable JSON (${error})`,
+      };
+    }
+    const validation = validateOperationRequest(parsed);
+    return validation.valid
+      ? validation.request
+      : { type: "invalid", reason: validation.reason };
+  }
+
   async deleteOperation(file: string): Promise<void> {
     const filePath = path.join(this.config.operationQueue, file);
     try {
@@ -49,14 +89,227 @@ export class OperationRepository {
     } catch (error) {
       this.logger.error(`Error deleting operation request ${file}: ${error}`);
     }
+    await this.deleteRetryState(file);
+  }
+
+  // Null when the request has not failed yet or the state is unreadable
+  async readRetryState(file: string): Promise<OperationRetryState | null> {
+    try {
+      const state = JSON.parse(
+        await fs.readFile(this.getRetryStatePath(file), "utf-8"),
+      );
+      return Array.isArray(state.attempts) &&
+        typeof state.nextAttemptAt === "number"
+        ? state
+        : null;
+    } catch {
+      return null;
+    }
+  }
+
+  async writeRetryState(
+    file: string,
+    state: OperationRetryState,
+  ): Promise<void> {
+    await fs.writeFile(
+      this.getRetryStatePath(file),
+      JSON.stringify(state, null, 2),
+      "utf-8",
+    );
+  }
+
+  private async deleteRetryState(file: string): Promise<void> {
+    try {
+      await fs.unlink(this.getRetryStatePath(file));
+    } catch {
+      // Never failed
+    }
+  }
+
+  private getRetryStatePath(file: string): string {
+    return path.join(this.config.operationQueue, file + RETRY_SUFFIX);
+  }
+
+  async moveToBackup(file: string, failure: OperationFailure): Promise<void> {
+    await fs.mkdir(this.config.operationQueueBackup, { recursive: true });
+    await fs.rename(
+      path.join(this.config.operationQueue, file),
+      this.getBackupPath(file),
+    );
+    try {
+      await fs.writeFile(
+        this.getBackupPath(file) + FAILURE_SUFFIX,
+        JSON.stringify(failure, null, 2),
+        "utf-8",
+      );
+    } catch (error) {
+      this.logger.error(`Error recording failure of ${file}: ${error}`);
+    }
+    await this.deleteRetryState(file);
+  }
+
+  async readFailedOperations(): Promise<FailedOperation[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.config.operationQueueBackup);
+    } catch {
+      return [];
+    }
+
+    const requestFiles = files
+      .filter((f) => f.endsWith(".json") && !f.endsWith(FAILURE_SUFFIX))
+      .sort();
+    const operations: FailedOperation[] = [];
+
+    for (const file of requestFiles) {
+      const request = await this.readRequest(this.getBackupPath(file));
+      let failure: OperationFailure | undefined;
+      try {
+        failure = JSON.parse(
+          await fs.readFile(this.getBackupPath(file) + FAILURE_SUFFIX, "utf-8"),
+        );
+      } catch {
+        failure = undefined;
+      }
+      operations.push({ file, request, failure });
+    }
+
+    return operations;
+  }
+
+  // Moves a backed-up request back into the queue for another attempt
+  async retryFailedOperation(file: string): Promise<void> {
+    await fs.mkdir(this.config.operationQueue, { recursive: true });
+    await fs.rename(
+      this.getBackupPath(file),
+      path.join(this.config.operationQueue, file),
+    );
+    await this.deleteFailure(file);
+  }
+
+  async discardFailedOperation(file: string): Promise<void> {
+    await fs.unlink(this.getBackupPath(file));
+    await this.deleteFailure(file);
+  }
+
+  getBackupPath(file: string): string {
+    return path.join(this.config.operationQueueBackup, file);
+  }
+
+  private async deleteFailure(file: string): Promise<void> {
+    try {
+      await fs.unlink(this.getBackupPath(file) + FAILURE_SUFFIX);
+    } catch {
+      // No failure recorded
+    }
+  }
+
+  // The id of an operation is its request file name without the extension
+  getOperationId(file: string): string {
+    return file.replace(/\.json$/, "");
+  }
+
+  async recordResult(
+    file: string,
+    status: OperationStatus,
+    error?: string,
+  ): Promise<void> {
+    const result: OperationResult = {
+      id: this.getOperationId(file),
+      status,
+      completedAt: Date.now(),
+      error,
+    };
+    const resultPath = this.getResultPath(result.id);
+    try {
+      await fs.mkdir(path.dirname(resultPath), { recursive: true });
+      await fs.writeFile(`${resultPath}.tmp`, JSON.stringify(result), "utf-8");
+      await fs.rename(`${resultPath}.tmp`, resultPath);
+    } catch (writeError) {
+      this.logger.error(`Error recording result of ${file}: ${writeError}`);
+    }
+  }
+
+  // The processor may run in another window, so the result is polled for;
+  // null when the operation is still pending at the timeout
+  async waitForResult(
+    id: string,
+    timeoutMs: number,
+  ): Promise<OperationResult | null> {
+    const deadline = Date.now() + timeoutMs;
+    let result = await this.readResult(id);
+    while (!result && Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, RESULT_POLL_MS));
+      result = await this.readResult(id);
+    }
+    if (result) {
+      try {
+        await fs.unlink(this.getResultPath(id));
+      } catch {
+        // Already removed
+      }
+    }
+    return result;
+  }
+
+  // Removes results nobody waited for
+  async pruneResults(
+    maxAgeMs: number,
+    now: number = Date.now(),
+  ): Promise<void> {
+    const resultsDir = path.join(this.config.root, RESULTS_DIRECTORY);
+    let files: string[];
+    try {
+      files = await fs.readdir(resultsDir);
+    } catch {
+      return;
+    }
+    for (const file of files) {
+      const filePath = path.join(resultsDir, file);
+      try {
+        const stat = await fs.stat(filePath);
+        if (now - stat.mtimeMs > maxAgeMs) {
+          await fs.unlink(filePath);
+        }
+      } catch (error) {
+        this.logger.error(`Error pruning operation result ${file}: ${error}`);
+      }
+    }
+  }
+
+  private async readResult(id: string): Promise<OperationResult | null> {
+    try {
+      return JSON.parse(await fs.readFile(this.getResultPath(id), "utf-8"));
+    } catch {
+      return null;
+    }
+  }
+
+  private getResultPath(id: string): string {
+    return path.join(this.config.root, RESULTS_DIRECTORY, `${id}.json`);
   }
 
-  async addOperation(request: OperationRequest): Promise<void> {
-    const timestamp = Date.now();
+  // Returns the id of the queued operation
+  async addOperation(request: OperationRequest): Promise<string> {
+    const timestamp = Math.max(Date.now(), lastTimestamp + 1);
+    lastTimestamp = timestamp;
     const random = Math.random().toString(36).substring(2, 8);
     const fileName = `${timestamp}_${random}.json`;
     const filePath = path.join(this.config.operationQueue, fileName);
+    // Written under a temporary name so the processor's watcher never reads
+    // a half-written request
+    const tempPath = `${filePath}.tmp`;
     await fs.mkdir(this.config.operationQueue, { recursive: true });
-    await fs.writeFile(filePath, JSON.stringify(request, null, 2), "utf-8");
+    await fs.writeFile(
+      tempPath,
+      JSON.stringify(
+        { ...request, version: OPERATION_REQUEST_VERSION },
+        null,
+        2,
+      ),
+      "utf-8",
+    );
+    await fs.rename(tempPath, filePath);
+    return this.getOperationId(fileName);
   }
 }
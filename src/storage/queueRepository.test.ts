@@ -23,6 +23,9 @@ function createTestConfig(testRoot: string): CoftConfig {
     exportDir: "",
     exportAgeDays: 90,
     startOfWeek: "monday",
+    editThrottleSeconds: 30,
+    idleThresholdMinutes: 5,
+    outsideWorkspace: "repository",
   };
 }
 
@@ -46,6 +49,23 @@ suite("QueueRepository Test Suite", () => {
     repository = new QueueRepository(testConfig, logger);
   });
 
+  // Entries of all sealed journal segments, in order
+  async function readQueueEntries(): Promise<any[]> {
+    await repository.rotate();
+    const files = (await fs.readdir(testConfig.queue)).sort();
+    const entries: any[] = [];
+    for (const file of files) {
+      const content = await fs.readFile(
+        path.join(testConfig.queue, file),
+        "utf-8",
+      );
+      for (const line of content.split("\n").filter((l) => l)) {
+        entries.push(JSON.parse(line));
+      }
+    }
+    return entries;
+  }
+
   teardown(async () => {
     try {
       await fs.rm(testRoot, { recursive: true, force: true });
@@ -54,21 +74,16 @@ suite("QueueRepository Test Suite", () => {
     }
   });
 
-  test("addEntry creates a JSON file in the queue directory", async () => {
+  test("addEntry appends to an active journal segment", async () => {
     await repository.addEntry("/workspace/project", "src/app.ts", "main");
     const files = await fs.readdir(testConfig.queue);
     assert.strictEqual(files.length, 1);
-    assert.ok(files[0].endsWith(".json"));
+    assert.ok(files[0].endsWith(".active"));
   });
 
   test("addEntry file contains correct entry data", async () => {
     await repository.addEntry("/workspace/project", "src/index.ts", "feature");
-    const files = await fs.readdir(testConfig.queue);
-    const content = await fs.readFile(
-      path.join(testConfig.queue, files[0]),
-      "utf-8",
-    );
-    const entry = JSON.parse(content);
+    const [entry] = await readQueueEntries();
     assert.strictEqual(entry.directory, "/workspace/project");
     assert.strictEqual(entry.filename, "src/index.ts");
     assert.strictEqual(entry.gitBranch, "feature");
@@ -77,13 +92,256 @@ suite("QueueRepository Test Suite", () => {
 
   test("addEntry with no branch stores null for gitBranch", async () => {
     await repository.addEntry("/workspace/project", "src/index.ts");
+    const [entry] = await readQueueEntries();
+    assert.strictEqual(entry.gitBranch, null);
+  });
+
+  test("addEntry defaults kind to save", async () => {
+    await repository.addEntry("/workspace/project", "src/index.ts", "main");
+    const [entry] = await readQueueEntries();
+    assert.strictEqual(entry.kind, "save");
+  });
+
+  test("addEntry stores edit kind", async () => {
+    await repository.addEntry(
+      "/workspace/project",
+      "src/index.ts",
+      "main",
+      "edit",
+    );
+    const [entry] = await readQueueEntries();
+    assert.strictEqual(entry.kind, "edit");
+  });
+
+  test("addEntry stores the remote environment", async () => {
+    await repository.addEntry(
+      "/workspaces/project",
+      "src/index.ts",
+      "main",
+      "save",
+      { remote: { name: "dev-container", authority: "dev-container+7b7d" } },
+    );
+    const [entry] = await readQueueEntries();
+    assert.strictEqual(entry.remoteName, "dev-container");
+    assert.strictEqual(entry.remoteAuthority, "dev-container+7b7d");
+  });
+
+  test("addEntry stores the line diff of a save", async () => {
+    await repository.addEntry(
+      "/workspace/project",
+      "src/app.ts",
+      "main",
+      "save",
+      {
+        lineDiff: { added: 12, removed: 3 },
+      },
+    );
+    const [entry] = await readQueueEntries();
+    assert.strictEqual(entry.linesAdded, 12);
+    assert.strictEqual(entry.linesRemoved, 3);
+  });
+
+  test("addEvent stores an activity event without file details", async () => {
+    await repository.addEvent("blur", 12345);
+    const [entry] = await readQueueEntries();
+    assert.strictEqual(entry.kind, "blur");
+    assert.strictEqual(entry.timestamp, 12345);
+    assert.strictEqual(entry.filename, "");
+    assert.strictEqual(entry.gitBranch, null);
+  });
+
+  test("addManualEntry stores project and comment", async () => {
+    await repository.addManualEntry("Alpha", "Planning", 12345);
+    const [entry] = await readQueueEntries();
+    assert.strictEqual(entry.kind, "manual");
+    assert.strictEqual(entry.project, "Alpha");
+    assert.strictEqual(entry.comment, "Planning");
+    assert.strictEqual(entry.timestamp, 12345);
+    assert.strictEqual(entry.filename, "");
+  });
+
+  test("addPrivateEntry keeps only the time and kind", async () => {
+    await repository.addPrivateEntry("edit", 12345);
+    const [entry] = await readQueueEntries();
+    assert.strictEqual(entry.private, true);
+    assert.strictEqual(entry.kind, "edit");
+    assert.strictEqual(entry.timestamp, 12345);
+    assert.strictEqual(entry.directory, "");
+    assert.strictEqual(entry.filename, "");
+    assert.strictEqual(entry.gitBranch, null);
+    assert.strictEqual(entry.languageId, undefined);
+  });
+
+  test("entries of a window are appended to one journal segment", async () => {
+    await repository.addEntry("/workspace/project", "a.ts", "main");
+    await repository.addEvent("blur", 12345);
+    await repository.addEntry("/workspace/project", "b.ts", "main");
+
     const files = await fs.readdir(testConfig.queue);
-    const content = await fs.readFile(
-      path.join(testConfig.queue, files[0]),
+    assert.strictEqual(files.length, 1);
+    const entries = await readQueueEntries();
+    assert.deepStrictEqual(
+      entries.map((e) => e.filename || e.kind),
+      ["a.ts", "blur", "b.ts"],
+    );
+  });
+
+  test("repeated saves of a file in a slot are held back until rotate", async () => {
+    const slot = new Date(2024, 0, 15, 10, 0).getTime();
+    const save = (minute: number, added: number) =>
+      (repository as any).coalesceSave({
+        directory: "/workspace/project",
+        filename: "src/app.ts",
+        gitBranch: "main",
+        timestamp: slot + minute * 60 * 1000,
+        kind: "save",
+        linesAdded: added,
+        linesRemoved: 1,
+      });
+    await save(1, 2);
+    await save(7, 3);
+    await save(4, 5);
+
+    const [active] = await fs.readdir(testConfig.queue);
+    const written = await fs.readFile(
+      path.join(testConfig.queue, active),
       "utf-8",
     );
-    const entry = JSON.parse(content);
-    assert.strictEqual(entry.gitBranch, null);
+    assert.strictEqual(written.split("\n").filter((l) => l).length, 1);
+
+    const entries = await readQueueEntries();
+    assert.strictEqual(entries.length, 2);
+    assert.strictEqual(entries[0].timestamp, slot + 1 * 60 * 1000);
+    assert.strictEqual(entries[1].timestamp, slot + 7 * 60 * 1000);
+    assert.strictEqual(entries[1].linesAdded, 8);
+    assert.strictEqual(entries[1].linesRemoved, 2);
+  });
+
+  test("saves in another slot or of another file are appended at once", async () => {
+    const slot = new Date(2024, 0, 15, 10, 0).getTime();
+    const save = (filename: string, minute: number) =>
+      (repository as any).coalesceSave({
+        directory: "/workspace/project",
+        filename,
+        gitBranch: "main",
+        timestamp: slot + minute * 60 * 1000,
+        kind: "save",
+      });
+    await save("a.ts", 1);
+    await save("a.ts", 16);
+    await save("b.ts", 2);
+
+    const [active] = await fs.readdir(testConfig.queue);
+    const written = await fs.readFile(
+      path.join(testConfig.queue, active),
+      "utf-8",
+    );
+    assert.strictEqual(written.split("\n").filter((l) => l).length, 3);
+  });
+
+  test("entries after moveToBatch start a new segment", async () => {
+    await repository.addEntry("/workspace/project", "a.ts", "main");
+    const moved = await repository.moveToBatch();
+    await repository.addEntry("/workspace/project", "b.ts", "main");
+
+    const files = await fs.readdir(testConfig.queue);
+    assert.strictEqual(moved.length, 1);
+    assert.strictEqual(files.length, 1);
+    assert.notStrictEqual(files[0], moved[0]);
+  });
+
+  test("moveToBatch seals the segment of a window that died", async () => {
+    const active = path.join(
+      testConfig.queue,
+      "journal_1705309200000_0123456789ab_1.active",
+    );
+    await fs.writeFile(
+      active,
+      `${JSON.stringify({ filename: "a.ts", timestamp: 1, kind: "save" })}\n`,
+    );
+    const lastWrite = new Date(Date.now() - 20 * 60 * 1000);
+    await fs.utimes(active, lastWrite, lastWrite);
+
+    const moved = await repository.moveToBatch();
+
+    assert.deepStrictEqual(moved, [
+      "journal_1705309200000_0123456789ab_1.jsonl",
+    ]);
+    assert.deepStrictEqual(await fs.readdir(testConfig.queue), []);
+  });
+
+  test("moveToBatch leaves the recently written segment of another window", async () => {
+    // The PID of the other window may well be free on this machine
+    const active = "journal_1705309200000_999999999_1.active";
+    await fs.writeFile(path.join(testConfig.queue, active), "");
+
+    const moved = await repository.moveToBatch();
+
+    assert.deepStrictEqual(moved, []);
+    assert.deepStrictEqual(await fs.readdir(testConfig.queue), [active]);
+  });
+
+  test("sealing keeps a sealed segment of the same name", async () => {
+    await repository.addEntry("/workspace/project", "a.ts", "main");
+    const [active] = await fs.readdir(testConfig.queue);
+    const sealed = active.replace(/\.active$/, ".jsonl");
+    await fs.writeFile(path.join(testConfig.queue, sealed), "earlier\n");
+
+    await repository.rotate();
+
+    const files = (await fs.readdir(testConfig.queue)).sort();
+    assert.deepStrictEqual(files, [
+      sealed,
+      sealed.replace(/\.jsonl$/, "_1.jsonl"),
+    ]);
+    assert.strictEqual(
+      await fs.readFile(path.join(testConfig.queue, sealed), "utf-8"),
+      "earlier\n",
+    );
+  });
+
+  test("migrateLegacyEntries moves queue files into the journal", async () => {
+    for (const [file, timestamp] of [
+      ["1000_aaaaaaaaaaaa.json", 1000],
+      ["2000_bbbbbbbbbbbb.json", 2000],
+    ] as const) {
+      await fs.writeFile(
+        path.join(testConfig.queue, file),
+        JSON.stringify({ filename: file, timestamp, kind: "save" }, null, 2),
+      );
+    }
+
+    await repository.migrateLegacyEntries();
+
+    const files = await fs.readdir(testConfig.queue);
+    assert.strictEqual(files.length, 1);
+    assert.ok(files[0].endsWith(".jsonl"));
+    const entries = await readQueueEntries();
+    assert.deepStrictEqual(
+      entries.map((e) => e.timestamp).sort(),
+      [1000, 2000],
+    );
+  });
+
+  test("migrateLegacyEntries recovers files of an interrupted migration", async () => {
+    const claim = path.join(
+      testConfig.queue,
+      "1000_aaaaaaaaaaaa.json.0123456789ab.migrating",
+    );
+    await fs.writeFile(
+      claim,
+      JSON.stringify({ filename: "a.ts", timestamp: 1000, kind: "save" }),
+    );
+    const claimedAt = new Date(Date.now() - 20 * 60 * 1000);
+    await fs.utimes(claim, claimedAt, claimedAt);
+
+    await repository.migrateLegacyEntries();
+
+    const entries = await readQueueEntries();
+    assert.deepStrictEqual(
+      entries.map((e) => e.filename),
+      ["a.ts"],
+    );
   });
 
   test("hasQueueFiles returns false when queue is empty", async () => {
@@ -91,17 +349,18 @@ suite("QueueRepository Test Suite", () => {
     assert.strictEqual(result, false);
   });
 
-  test("hasQueueFiles returns true after addEntry", async () => {
+  test("hasQueueFiles returns true once the segment is sealed", async () => {
     await repository.addEntry("/workspace/project", "src/app.ts", "main");
-    const result = await repository.hasQueueFiles();
-    assert.strictEqual(result, true);
+    assert.strictEqual(await repository.hasQueueFiles(), false);
+    await repository.rotate();
+    assert.strictEqual(await repository.hasQueueFiles(), true);
   });
 
   test("moveToBatch moves all files from queue to queueBatch", async () => {
     await repository.addEntry("/workspace/project", "a.ts", "main");
     await repository.addEntry("/workspace/project", "b.ts", "main");
     const moved = await repository.moveToBatch();
-    assert.strictEqual(moved.length, 2);
+    assert.strictEqual(moved.length, 1);
 
     const queueFiles = await fs.readdir(testConfig.queue);
     assert.strictEqual(
@@ -111,7 +370,7 @@ suite("QueueRepository Test Suite", () => {
     );
 
     const batchFiles = await fs.readdir(testConfig.queueBatch);
-    assert.strictEqual(batchFiles.length, 2, "batch should have 2 files");
+    assert.strictEqual(batchFiles.length, 1, "batch should have 1 segment");
   });
 
   test("moveToBatch returns empty array when queue is empty", async () => {
@@ -131,6 +390,31 @@ suite("QueueRepository Test Suite", () => {
     assert.strictEqual(batchFiles.length, 0);
   });
 
+  test("readBackupFiles counts the entries of backed-up files", async () => {
+    await repository.addEntry("/workspace/project", "a.ts", "main");
+    await repository.addEntry("/workspace/project", "b.ts", "main");
+    await repository.moveToBatch();
+    await repository.moveToBackup();
+
+    const backupFiles = await repository.readBackupFiles();
+
+    assert.strictEqual(backupFiles.length, 1);
+    assert.strictEqual(backupFiles[0].entryCount, 2);
+    assert.ok(backupFiles[0].timestamp > 0);
+  });
+
+  test("restoreBackupFile moves a backed-up file back into the queue", async () => {
+    await repository.addEntry("/workspace/project", "a.ts", "main");
+    await repository.moveToBatch();
+    await repository.moveToBackup();
+    const [backupFile] = await repository.readBackupFiles();
+
+    await repository.restoreBackupFile(backupFile.file);
+
+    assert.deepStrictEqual(await fs.readdir(testConfig.queueBackup), []);
+    assert.strictEqual(await repository.hasQueueFiles(), true);
+  });
+
   test("hasQueueFiles returns false when queue directory does not exist", async () => {
     // Don't create the queue dir at all
     const freshRoot = path.join(os.tmpdir(), `coft-fresh-${Date.now()}`);
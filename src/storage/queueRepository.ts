@@ -1,13 +1,60 @@
-import * as fs from "fs/promises";
 import * as crypto from "crypto";
+import * as fs from "fs/promises";
 import * as path from "path";
 import { CoftConfig } from "../application/config";
-import { QueueEntry } from "./storage";
+import {
+  ActivityContext,
+  ActivityEventKind,
+  ActivityKind,
+  QueueEntry,
+} from "./storage";
 import { Logger } from "../utils/logger";
 
+// Each process appends to its own active journal segment; sealed segments
+// are claimed by the batch as a whole
+export const SEGMENT_EXTENSION = ".jsonl";
+const ACTIVE_EXTENSION = ".active";
+// One file per entry, written before the journal existed
+export const LEGACY_ENTRY_EXTENSION = ".json";
+const MIGRATING_EXTENSION = ".migrating";
+// A segment this large is sealed even before the next batch
+const MAX_SEGMENT_BYTES = 256 * 1024;
+
+// Names the batch file written from queue_batch until it is committed and
+// the staged files are deleted
+const BATCH_MARKER_FILE = "batch_pending.json";
+
+// Process-wide, so repositories replaced on a configuration reload never
+// pick the same segment name
+let segmentSequence = 0;
+
+// Names this process's segments and migration claims. PIDs are reused after
+// a reboot and mean nothing across a host and a container sharing the root
+const INSTANCE_ID = crypto.randomBytes(6).toString("hex");
+
+// Live windows seal their segment at least every interval (5 minutes at
+// most), so a segment or claim of another instance untouched this long is
+// abandoned
+const ABANDONED_AFTER_MS = 15 * 60 * 1000;
+
+export interface QueueBackupFile {
+  file: string;
+  entryCount: number;
+  // When the file was moved to the backup
+  timestamp: number;
+}
+
 export class QueueRepository {
   private config: CoftConfig;
   private logger: Logger;
+  private activeSegment: string | null = null;
+  private activeBytes: number = 0;
+  // Saves of a file and slot already in the journal since the last rotation,
+  // and the latest later save of each, held back until the next rotation
+  private appendedSaves = new Set<string>();
+  private pendingSaves = new Map<string, QueueEntry>();
+  // Appends and rotations of this process run one after another
+  private writes: Promise<void> = Promise.resolve();
 
   constructor(config: CoftConfig, logger: Logger) {
     this.config = config;
@@ -18,31 +65,105 @@ export class QueueRepository {
     workspaceRoot: string,
     relativePath: string,
     gitBranch?: string,
+    kind: ActivityKind = "save",
+    context: ActivityContext = {},
   ): Promise<void> {
-    const timestamp = Date.now();
-    const hash = crypto
-      .createHash("sha256")
-      .update(`${workspaceRoot}:${relativePath}:${timestamp}`)
-      .digest("hex")
-      .substring(0, 12);
-    const filename = `${timestamp}_${hash}.json`;
-    const queueFilePath = path.join(this.config.queue, filename);
-
     const entry: QueueEntry = {
       directory: workspaceRoot,
       filename: relativePath,
       gitBranch: gitBranch || null,
-      timestamp,
+      timestamp: Date.now(),
+      kind,
     };
+    if (context.remote) {
+      entry.remoteName = context.remote.name;
+      entry.remoteAuthority = context.remote.authority;
+    }
+    if (context.languageId) {
+      entry.languageId = context.languageId;
+    }
+    if (context.lineDiff) {
+      entry.linesAdded = context.lineDiff.added;
+      entry.linesRemoved = context.lineDiff.removed;
+    }
 
-    await this.ensureDirectory(this.config.queue);
-    await fs.writeFile(queueFilePath, JSON.stringify(entry, null, 2), "utf-8");
-    this.logger.debug(`Queue entry created: ${filename}`);
+    if (kind === "save") {
+      await this.coalesceSave(entry);
+      return;
+    }
+    await this.append([entry]);
+    this.logger.debug(`Queue entry appended: ${relativePath} (${kind})`);
   }
 
+  // Events have no directory; it holds the window that recorded them, so
+  // the batch keeps them apart per window
+  async addEvent(
+    kind: ActivityEventKind,
+    timestamp: number,
+    window: string = "",
+  ): Promise<void> {
+    await this.append([
+      { directory: window, filename: "", gitBranch: null, timestamp, kind },
+    ]);
+    this.logger.debug(`Queue event appended (${kind})`);
+  }
+
+  async addPrivateEntry(kind: ActivityKind, timestamp: number): Promise<void> {
+    await this.append([
+      {
+        directory: "",
+        filename: "",
+        gitBranch: null,
+        timestamp,
+        kind,
+        private: true,
+      },
+    ]);
+    this.logger.debug(`Queue private entry appended (${kind})`);
+  }
+
+  async addManualEntry(
+    project: string,
+    comment: string,
+    timestamp: number,
+  ): Promise<void> {
+    await this.append([
+      {
+        directory: "",
+        filename: "",
+        gitBranch: null,
+        timestamp,
+        kind: "manual",
+        project,
+        comment,
+      },
+    ]);
+    this.logger.debug(`Queue manual entry appended (${project})`);
+  }
+
+  // Appends the held-back saves and seals this process's active segment so
+  // a batch can claim it
+  rotate(): Promise<void> {
+    return this.serialize(async () => {
+      const pending = [...this.pendingSaves.values()];
+      this.pendingSaves.clear();
+      this.appendedSaves.clear();
+      if (pending.length > 0) {
+        await this.writeEntries(pending);
+      }
+      await this.sealActiveSegment();
+    });
+  }
+
+  // Claims whole sealed segments by renaming them into the batch directory;
+  // a rename either moves a segment with all its lines or not at all
   async moveToBatch(): Promise<string[]> {
     await this.ensureDirectory(this.config.queueBatch);
-    const files = await fs.readdir(this.config.queue);
+    await this.rotate();
+    await this.recoverAbandonedFiles();
+    const files = (await fs.readdir(this.config.queue)).filter((file) =>
+      this.isClaimable(file),
+    );
     const movedFiles: string[] = [];
 
     for (const file of files) {
@@ -113,15 +234,323 @@ export class QueueRepository {
     this.logger.debug(`Deleted ${files.length} files from batch`);
   }
 
+  async readBackupFiles(): Promise<QueueBackupFile[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.config.queueBackup);
+    } catch {
+      return [];
+    }
+
+    const backupFiles: QueueBackupFile[] = [];
+    for (const file of files.sort()) {
+      try {
+        const filePath = this.getBackupPath(file);
+        const stat = await fs.stat(filePath);
+        const content = await fs.readFile(filePath, "utf-8");
+        backupFiles.push({
+          file,
+          entryCount: file.endsWith(SEGMENT_EXTENSION)
+            ? content.split("\n").filter((line) => line.trim()).length
+            : 1,
+          timestamp: stat.mtimeMs,
+        });
+      } catch (error) {
+        this.logger.error(`Error reading backup file ${file}: ${error}`);
+      }
+    }
+    return backupFiles;
+  }
+
+  // Moves a backed-up file back into the queue for the next batch
+  async restoreBackupFile(file: string): Promise<void> {
+    await this.ensureDirectory(this.config.queue);
+    await fs.rename(
+      this.getBackupPath(file),
+      path.join(this.config.queue, file),
+    );
+  }
+
+  async discardBackupFile(file: string): Promise<void> {
+    await fs.unlink(this.getBackupPath(file));
+  }
+
+  getBackupPath(file: string): string {
+    return path.join(this.config.queueBackup, file);
+  }
+
+  async hasBatchFiles(): Promise<boolean> {
+    try {
+      const files = await fs.readdir(this.config.queueBatch);
+      return files.length > 0;
+    } catch {
+      return false;
+    }
+  }
+
+  async writeBatchMarker(batchFilename: string): Promise<void> {
+    const markerPath = path.join(this.config.root, BATCH_MARKER_FILE);
+    const tempPath = `${markerPath}.${process.pid}.tmp`;
+    await fs.writeFile(
+      tempPath,
+      JSON.stringify({ batch: batchFilename }, null, 2),
+      "utf-8",
+    );
+    await fs.rename(tempPath, markerPath);
+  }
+
+  async readBatchMarker(): Promise<string | null> {
+    try {
+      const content = await fs.readFile(
+        path.join(this.config.root, BATCH_MARKER_FILE),
+        "utf-8",
+      );
+      const parsed = JSON.parse(content);
+      return typeof parsed.batch === "string" ? parsed.batch : null;
+    } catch {
+      return null;
+    }
+  }
+
+  async clearBatchMarker(): Promise<void> {
+    try {
+      await fs.unlink(path.join(this.config.root, BATCH_MARKER_FILE));
+    } catch {
+      // No marker
+    }
+  }
+
   async hasQueueFiles(): Promise<boolean> {
     try {
       const files = await fs.readdir(this.config.queue);
-      return files.length > 0;
+      return files.some((file) => this.isClaimable(file));
     } catch {
       return false;
     }
   }
 
+  // Queues written by earlier versions hold one JSON file per entry. They
+  // are claimed one by one (so two starting windows never both take one),
+  // appended to the journal and only then deleted
+  async migrateLegacyEntries(): Promise<void> {
+    await this.ensureDirectory(this.config.queue);
+    await this.recoverAbandonedFiles();
+    const files = (await fs.readdir(this.config.queue)).filter((file) =>
+      file.endsWith(LEGACY_ENTRY_EXTENSION),
+    );
+    if (files.length === 0) {
+      return;
+    }
+
+    const claimed: string[] = [];
+    const entries: QueueEntry[] = [];
+    for (const file of files) {
+      const claimPath = path.join(
+        this.config.queue,
+        `${file}.${INSTANCE_ID}${MIGRATING_EXTENSION}`,
+      );
+      try {
+        await fs.rename(path.join(this.config.queue, file), claimPath);
+        // The rename keeps the old file's time; recovery goes by the claim's
+        const now = new Date();
+        await fs.utimes(claimPath, now, now);
+        claimed.push(claimPath);
+        entries.push(JSON.parse(await fs.readFile(claimPath, "utf-8")));
+      } catch (error: any) {
+        if (error.code !== "ENOENT") {
+          this.logger.error(`Error migrating queue file ${file}: ${error}`);
+        }
+      }
+    }
+
+    if (entries.length > 0) {
+      await this.append(entries);
+    }
+    // Deleted before sealing: a crash in between leaves an active segment
+    // that recovery seals, never the same entry twice
+    for (const claimPath of claimed) {
+      await fs.unlink(claimPath);
+    }
+    await this.rotate();
+    this.logger.info(`Migrated ${entries.length} queue files to the journal`);
+  }
+
+  // Auto-save can save a file several times a second. The first save of a
+  // file in a slot goes to the journal right away, so a crash loses no
+  // activity; later ones replace a single pending entry, keeping the latest
+  // timestamp and adding up the changed lines, until rotate() appends it.
+  // The batch merges what remains (BatchService.coalesceSaves)
+  private async coalesceSave(entry: QueueEntry): Promise<void> {
+    const key = [
+      entry.directory,
+      entry.filename,
+      entry.gitBranch ?? "",
+      entry.remoteAuthority ?? "",
+      this.getSlotStart(entry.timestamp),
+    ].join("\0");
+    if (!this.appendedSaves.has(key)) {
+      this.appendedSaves.add(key);
+      await this.append([entry]);
+      this.logger.debug(`Queue entry appended: ${entry.filename} (save)`);
+      return;
+    }
+    const pending = this.pendingSaves.get(key);
+    this.pendingSaves.set(
+      key,
+      pending ? this.mergeSaves(pending, entry) : entry,
+    );
+    this.logger.debug(`Queue entry pending: ${entry.filename} (save)`);
+  }
+
+  private mergeSaves(previous: QueueEntry, next: QueueEntry): QueueEntry {
+    const merged: QueueEntry =
+      next.timestamp >= previous.timestamp
+        ? { ...previous, ...next }
+        : { ...next, ...previous };
+    if (
+      previous.linesAdded !== undefined ||
+      next.linesAdded !== undefined ||
+      previous.linesRemoved !== undefined ||
+      next.linesRemoved !== undefined
+    ) {
+      merged.linesAdded = (previous.linesAdded ?? 0) + (next.linesAdded ?? 0);
+      merged.linesRemoved =
+        (previous.linesRemoved ?? 0) + (next.linesRemoved ?? 0);
+    }
+    return merged;
+  }
+
+  // Start of the local time slot the report groups this timestamp into
+  private getSlotStart(timestamp: number): number {
+    const date = new Date(timestamp);
+    const slotMinutes =
+      Math.floor(date.getMinutes() / this.config.viewGroupByMinutes) *
+      this.config.viewGroupByMinutes;
+    date.setMinutes(slotMinutes, 0, 0);
+    return date.getTime();
+  }
+
+  private append(entries: QueueEntry[]): Promise<void> {
+    return this.serialize(() => this.writeEntries(entries));
+  }
+
+  private async writeEntries(entries: QueueEntry[]): Promise<void> {
+    if (!this.activeSegment) {
+      segmentSequence++;
+      this.activeSegment = path.join(
+        this.config.queue,
+        `journal_${Date.now()}_${INSTANCE_ID}_${segmentSequence}${ACTIVE_EXTENSION}`,
+      );
+      this.activeBytes = 0;
+    }
+    const lines = entries.map((entry) => `${JSON.stringify(entry)}\n`);
+    const data = lines.join("");
+    await this.ensureDirectory(this.config.queue);
+    // A single append per call: a crash can cut off at most the last line,
+    // which readers skip
+    await fs.appendFile(this.activeSegment, data, "utf-8");
+    this.activeBytes += Buffer.byteLength(data);
+    if (this.activeBytes >= MAX_SEGMENT_BYTES) {
+      await this.sealActiveSegment();
+    }
+  }
+
+  private serialize(write: () => Promise<void>): Promise<void> {
+    const result = this.writes.then(write);
+    this.writes = result.catch(() => undefined);
+    return result;
+  }
+
+  private async sealActiveSegment(): Promise<void> {
+    const active = this.activeSegment;
+    if (!active) {
+      return;
+    }
+    this.activeSegment = null;
+    try {
+      await this.sealSegment(active);
+    } catch (error: any) {
+      if (error.code !== "ENOENT") {
+        throw error;
+      }
+    }
+  }
+
+  // Never replaces a sealed segment of the same name: a window taken for
+  // gone (e.g. suspended) may append to its segment again and seal it twice
+  private async sealSegment(activePath: string): Promise<void> {
+    const sealedPath = this.toSealedPath(activePath);
+    let targetPath = sealedPath;
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await fs.link(activePath, targetPath);
+        break;
+      } catch (error: any) {
+        if (error.code !== "EEXIST") {
+          throw error;
+        }
+        targetPath = `${sealedPath.slice(0, -SEGMENT_EXTENSION.length)}_${attempt}${SEGMENT_EXTENSION}`;
+      }
+    }
+    await fs.unlink(activePath);
+  }
+
+  // Seals active segments of other instances that were not written to for
+  // a while, and active segments of this process left by an earlier
+  // repository (the configuration was reloaded). Queue files claimed by an
+  // interrupted migration go back to the queue
+  private async recoverAbandonedFiles(): Promise<void> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.config.queue);
+    } catch {
+      return;
+    }
+    for (const file of files) {
+      const filePath = path.join(this.config.queue, file);
+      try {
+        const active = file.match(/^journal_\d+_(\w+)_\d+\.active$/);
+        if (active) {
+          const abandoned =
+            active[1] === INSTANCE_ID
+              ? filePath !== this.activeSegment
+              : await this.isUntouched(filePath);
+          if (abandoned) {
+            await this.sealSegment(filePath);
+            this.logger.info(`Sealed abandoned journal segment: ${file}`);
+          }
+          continue;
+        }
+        const migrating = file.match(/^(.+\.json)\.(\w+)\.migrating$/);
+        if (
+          migrating &&
+          migrating[2] !== INSTANCE_ID &&
+          (await this.isUntouched(filePath))
+        ) {
+          await fs.rename(filePath, path.join(this.config.queue, migrating[1]));
+          this.logger.info(`Recovered interrupted migration: ${migrating[1]}`);
+        }
+      } catch (error) {
+        this.logger.error(`Error recovering ${file}: ${error}`);
+      }
+    }
+  }
+
+  private async isUntouched(filePath: string): Promise<boolean> {
+    const stat = await fs.stat(filePath);
+    return Date.now() - stat.mtimeMs >= ABANDONED_AFTER_MS;
+  }
+
+  private isClaimable(file: string): boolean {
+    return (
+      file.endsWith(SEGMENT_EXTENSION) || file.endsWith(LEGACY_ENTRY_EXTENSION)
+    );
+  }
+
+  private toSealedPath(activePath: string): string {
+    return activePath.slice(0, -ACTIVE_EXTENSION.length) + SEGMENT_EXTENSION;
+  }
+
   private async ensureDirectory(dir: string): Promise<void> {
     try {
       await fs.mkdir(dir, { recursive: true });
@@ -23,6 +23,9 @@ function createTestConfig(testRoot: string): CoftConfig {
     exportDir: "",
     exportAgeDays: 90,
     startOfWeek: "auto",
+    editThrottleSeconds: 30,
+    idleThresholdMinutes: 5,
+    outsideWorkspace: "repository",
   };
 }
 
@@ -95,6 +98,9 @@ suite("Storage Test Suite", () => {
       exportDir: "",
       exportAgeDays: 90,
       startOfWeek: "auto",
+      editThrottleSeconds: 30,
+      idleThresholdMinutes: 5,
+      outsideWorkspace: "repository",
     };
 
     const storage = new StorageManager(autoConfig, logger);
@@ -136,14 +142,16 @@ suite("Storage Test Suite", () => {
     await storage.writeQueueEntry("/test/workspace", "test1.txt", "main");
     await storage.writeQueueEntry("/test/workspace", "test2.txt", "main");
 
+    // Both entries are in the window's journal segment
     const movedFiles = await storage.moveQueueToBatch();
-    assert.strictEqual(movedFiles.length, 2);
+    assert.strictEqual(movedFiles.length, 1);
 
     const queueFiles = await fs.readdir(testConfig.queue);
     assert.strictEqual(queueFiles.length, 0);
 
     const batchFiles = await fs.readdir(testConfig.queueBatch);
-    assert.strictEqual(batchFiles.length, 2);
+    assert.strictEqual(batchFiles.length, 1);
+    assert.strictEqual((await storage.readBatchFiles()).length, 2);
   });
 
   test("writeQueueEntry should ensure queue directory exists", async () => {
@@ -2,11 +2,15 @@ import * as fs from "fs/promises";
 import * as path from "path";
 import { CoftConfig } from "../application/config";
 import { BatchRepository } from "./batchRepository";
-import { QueueRepository } from "./queueRepository";
+import { ManualTimerRepository } from "./manualTimerRepository";
+import { QueueBackupFile, QueueRepository } from "./queueRepository";
 import { OperationRepository } from "./operationRepository";
 import { ProjectRepository } from "./projectRepository";
 import { TimeReportRepository } from "./timeReportRepository";
-import { BatchService } from "../services/batchService";
+import { TrackingStateRepository } from "./trackingStateRepository";
+import { BatchService, RecordedFile } from "../services/batchService";
+import { RemoteEnvironment } from "../utils/environment";
+import { LineDiff } from "../utils/lineDiff";
 import { Logger } from "../utils/logger";
 
 export interface CollectBatchesResult {
@@ -14,18 +18,71 @@ export interface CollectBatchesResult {
   filesProcessed: number;
 }
 
+// "manual" is time logged with the manual timer rather than file activity
+export type ActivityKind = "edit" | "save" | "manual";
+
+export type ActivityEventKind = "focus" | "blur" | "idle" | "active";
+
+// Reserved batch branch key holding focus/idle events instead of file activity
+export const EVENTS_BRANCH = "_events";
+
+// Reserved batch branch key holding manual timer entries
+export const MANUAL_BRANCH = "_manual";
+
+// Reserved batch branch key holding anonymous activity from private mode
+export const PRIVATE_BRANCH = "_private";
+
+// Pseudo-directory for files outside any workspace folder and git repository;
+// their filename is the absolute path
+export const LOOSE_FILES_DIRECTORY = "(loose files)";
+
+export function isActivityEvent(
+  kind: ActivityKind | ActivityEventKind | undefined,
+): kind is ActivityEventKind {
+  return (
+    kind === "focus" || kind === "blur" || kind === "idle" || kind === "active"
+  );
+}
+
 export interface QueueEntry {
   directory: string;
   filename: string;
   gitBranch: string | null;
   timestamp: number;
+  kind?: ActivityKind | ActivityEventKind;
+  remoteName?: string;
+  remoteAuthority?: string;
+  languageId?: string;
+  // Lines changed since the previous save of the file
+  linesAdded?: number;
+  linesRemoved?: number;
+  // Manual timer entries only
+  project?: string;
+  comment?: string;
+  // Recorded in private mode: no file, branch or language
+  private?: boolean;
+}
+
+// Optional details captured with file activity
+export interface ActivityContext {
+  remote?: RemoteEnvironment;
+  languageId?: string;
+  lineDiff?: LineDiff;
 }
 
 export interface BatchFileEntry {
   File: string;
   Timestamp: number;
+  Kind?: ActivityKind | ActivityEventKind;
+  Language?: string;
+  Added?: number;
+  Removed?: number;
+  Project?: string;
+  Comment?: string;
 }
 
+// Remote activity is keyed by its environment directory (see
+// toEnvironmentDirectory), which embeds the remote authority
 export interface BatchEntry {
   [branch: string]: {
     [directory: string]: BatchFileEntry[];
@@ -40,6 +97,8 @@ export class StorageManager {
   public operationRepository: OperationRepository;
   public projectRepository: ProjectRepository;
   public timeReportRepository: TimeReportRepository;
+  public trackingStateRepository: TrackingStateRepository;
+  public manualTimerRepository: ManualTimerRepository;
   private batchService: BatchService;
 
   constructor(config: CoftConfig, logger: Logger) {
@@ -50,6 +109,8 @@ export class StorageManager {
     this.operationRepository = new OperationRepository(config, logger);
     this.projectRepository = new ProjectRepository(config, logger);
     this.timeReportRepository = new TimeReportRepository(config);
+    this.trackingStateRepository = new TrackingStateRepository(config, logger);
+    this.manualTimerRepository = new ManualTimerRepository(config, logger);
     this.batchService = new BatchService(config, logger);
   }
 
@@ -75,6 +136,12 @@ export class StorageManager {
       await this.ensureDirectory(path.join(this.config.data, "batches"));
       await this.ensureDirectory(path.join(this.config.data, "reports"));
 
+      try {
+        await this.queueRepository.migrateLegacyEntries();
+      } catch (error) {
+        this.logger.error(`Error migrating queue files: ${error}`);
+      }
+
       this.logger.info("Storage initialized successfully");
       return true;
     } catch (error) {
@@ -96,14 +163,45 @@ export class StorageManager {
     workspaceRoot: string,
     relativePath: string,
     gitBranch?: string,
+    kind: ActivityKind = "save",
+    context: ActivityContext = {},
   ): Promise<void> {
     return this.queueRepository.addEntry(
       workspaceRoot,
       relativePath,
       gitBranch,
+      kind,
+      context,
     );
   }
 
+  async writeActivityEvent(
+    kind: ActivityEventKind,
+    timestamp: number = Date.now(),
+    window: string = "",
+  ): Promise<void> {
+    return this.queueRepository.addEvent(kind, timestamp, window);
+  }
+
+  async writeManualEntry(
+    project: string,
+    comment: string,
+    timestamp: number = Date.now(),
+  ): Promise<void> {
+    return this.queueRepository.addManualEntry(project, comment, timestamp);
+  }
+
+  async writePrivateEntry(
+    kind: ActivityKind,
+    timestamp: number = Date.now(),
+  ): Promise<void> {
+    return this.queueRepository.addPrivateEntry(kind, timestamp);
+  }
+
+  async rotateQueueJournal(): Promise<void> {
+    return this.queueRepository.rotate();
+  }
+
   async moveQueueToBatch(): Promise<string[]> {
     return this.queueRepository.moveToBatch();
   }
@@ -120,14 +218,56 @@ export class StorageManager {
     return this.queueRepository.deleteBatchFiles();
   }
 
+  async readQueueBackupFiles(): Promise<QueueBackupFile[]> {
+    return this.queueRepository.readBackupFiles();
+  }
+
+  async restoreQueueBackupFile(file: string): Promise<void> {
+    return this.queueRepository.restoreBackupFile(file);
+  }
+
+  async discardQueueBackupFile(file: string): Promise<void> {
+    return this.queueRepository.discardBackupFile(file);
+  }
+
+  getQueueBackupPath(file: string): string {
+    return this.queueRepository.getBackupPath(file);
+  }
+
+  async hasBatchFiles(): Promise<boolean> {
+    return this.queueRepository.hasBatchFiles();
+  }
+
+  async writeBatchMarker(batchFilename: string): Promise<void> {
+    return this.queueRepository.writeBatchMarker(batchFilename);
+  }
+
+  async readBatchMarker(): Promise<string | null> {
+    return this.queueRepository.readBatchMarker();
+  }
+
+  async clearBatchMarker(): Promise<void> {
+    return this.queueRepository.clearBatchMarker();
+  }
+
+  getBatchFilename(queueFiles: string[], entries: QueueEntry[]): string {
+    return this.batchService.getBatchFilename(queueFiles, entries);
+  }
+
   async readBatchFiles(): Promise<QueueEntry[]> {
-    return this.batchRepository.readBatchFiles();
+    return this.batchService.coalesceSaves(
+      await this.batchRepository.readBatchFiles(),
+    );
   }
 
   async collectBatches(): Promise<CollectBatchesResult> {
     return this.batchService.collectAndMergeBatches();
   }
 
+  async readRecordedFiles(date: Date): Promise<RecordedFile[]> {
+    return this.batchService.readRecordedFiles(date);
+  }
+
   async hasQueueFiles(): Promise<boolean> {
     return this.queueRepository.hasQueueFiles();
   }
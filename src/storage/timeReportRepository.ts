@@ -9,6 +9,9 @@ export interface SavedTimeEntry {
   comment: string;
   project: string;
   assignedBranch?: string;
+  idle?: boolean;
+  languages?: string[];
+  manual?: boolean;
 }
 
 export interface SavedTimeReport {
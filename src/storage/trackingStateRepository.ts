@@ -0,0 +1,68 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import { CoftConfig } from "../application/config";
+import { Logger } from "../utils/logger";
+
+// "paused" records nothing, "private" records anonymous time only
+export type TrackingMode = "active" | "paused" | "private";
+
+export interface TrackingState {
+  mode: TrackingMode;
+  // A pause without an end lasts until tracking is resumed
+  pausedUntil?: number;
+  changedAt: number;
+}
+
+export const TRACKING_STATE_FILE = "tracking.json";
+
+const ACTIVE_STATE: TrackingState = { mode: "active", changedAt: 0 };
+
+export class TrackingStateRepository {
+  private config: CoftConfig;
+  private logger: Logger;
+
+  constructor(config: CoftConfig, logger: Logger) {
+    this.config = config;
+    this.logger = logger;
+  }
+
+  // Machine-local state shared by all windows, so it lives in the root and
+  // not in the data repository
+  getStatePath(): string {
+    return path.join(this.config.root, TRACKING_STATE_FILE);
+  }
+
+  async readState(): Promise<TrackingState> {
+    try {
+      const content = await fs.readFile(this.getStatePath(), "utf-8");
+      const parsed = JSON.parse(content);
+      if (
+        parsed.mode !== "active" &&
+        parsed.mode !== "paused" &&
+        parsed.mode !== "private"
+      ) {
+        this.logger.error(`${TRACKING_STATE_FILE} has unknown mode, ignoring`);
+        return ACTIVE_STATE;
+      }
+      return {
+        mode: parsed.mode,
+        pausedUntil:
+          typeof parsed.pausedUntil === "number"
+            ? parsed.pausedUntil
+            : undefined,
+        changedAt: typeof parsed.changedAt === "number" ? parsed.changedAt : 0,
+      };
+    } catch {
+      return ACTIVE_STATE;
+    }
+  }
+
+  async saveState(state: TrackingState): Promise<void> {
+    const statePath = this.getStatePath();
+    // Other windows read this file on change, so it is replaced atomically
+    const tempPath = `${statePath}.${process.pid}.tmp`;
+    await fs.mkdir(path.dirname(statePath), { recursive: true });
+    await fs.writeFile(tempPath, JSON.stringify(state, null, 2), "utf-8");
+    await fs.rename(tempPath, statePath);
+  }
+}
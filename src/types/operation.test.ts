@@ -0,0 +1,80 @@
+import * as assert from "assert";
+import {
+  OPERATION_REQUEST_VERSION,
+  validateOperationRequest,
+} from "./operation";
+
+suite("Operation Request Validation Test Suite", () => {
+  function reasonFor(value: unknown): string {
+    const validation = validateOperationRequest(value);
+    assert.strictEqual(validation.valid, false);
+    return validation.valid ? "" : validation.reason;
+  }
+
+  test("accepts a valid request of the current version", () => {
+    const validation = validateOperationRequest({
+      type: "projectChange",
+      action: "delete",
+      branch: "main",
+      directory: "/project",
+      version: OPERATION_REQUEST_VERSION,
+    });
+    assert.strictEqual(validation.valid, true);
+  });
+
+  test("migrates an unversioned request to the current version", () => {
+    const validation = validateOperationRequest({ type: "processBatch" });
+    assert.deepStrictEqual(validation, {
+      valid: true,
+      request: { type: "processBatch", version: OPERATION_REQUEST_VERSION },
+    });
+  });
+
+  test("rejects a request from a newer version", () => {
+    assert.strictEqual(
+      reasonFor({ type: "processBatch", version: 99 }),
+      `Invalid request: version 99 is newer than supported version ${OPERATION_REQUEST_VERSION}`,
+    );
+  });
+
+  test("rejects a projectChange without branch", () => {
+    assert.strictEqual(
+      reasonFor({
+        type: "projectChange",
+        action: "update",
+        directory: "/project",
+        project: "Alpha",
+      }),
+      "Invalid request: projectChange update is missing branch",
+    );
+  });
+
+  test("rejects a projectChange with an unknown action", () => {
+    assert.strictEqual(
+      reasonFor({ type: "projectChange", action: "rename" }),
+      'Invalid request: projectChange has unknown action "rename"',
+    );
+  });
+
+  test("rejects a timereport without entries", () => {
+    assert.strictEqual(
+      reasonFor({
+        type: "timereport",
+        file: "reports/2026/02/15.json",
+        body: { date: "2026-02-15" },
+      }),
+      "Invalid request: timereport reports/2026/02/15.json has no date and entries",
+    );
+  });
+
+  test("rejects unknown types and non-objects", () => {
+    assert.strictEqual(
+      reasonFor({ type: "rebase" }),
+      'Invalid request: unknown request type "rebase"',
+    );
+    assert.strictEqual(
+      reasonFor([1, 2]),
+      "Invalid request: request is not a JSON object",
+    );
+  });
+});
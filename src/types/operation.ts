@@ -1,20 +1,27 @@
-export interface ProcessBatchRequest {
+// Written into every request file; files without one predate versioning
+export const OPERATION_REQUEST_VERSION = 1;
+
+interface VersionedRequest {
+  version?: number;
+}
+
+export interface ProcessBatchRequest extends VersionedRequest {
   type: "processBatch";
 }
 
-export interface WriteTimeReportRequest {
+export interface WriteTimeReportRequest extends VersionedRequest {
   type: "timereport";
   file: string;
   body: import("../storage/timeReportRepository").SavedTimeReport;
 }
 
-export interface UpdateProjectsRequest {
+export interface UpdateProjectsRequest extends VersionedRequest {
   type: "projects";
   file: string;
   body: import("../storage/projectRepository").ProjectMap;
 }
 
-export interface ProjectChangeRequest {
+export interface ProjectChangeRequest extends VersionedRequest {
   type: "projectChange";
   action: "add" | "delete" | "update" | "addUnbound";
   branch?: string;
@@ -22,12 +29,53 @@ export interface ProjectChangeRequest {
   project?: string;
 }
 
-export interface HousekeepingRequest {
+export interface HousekeepingRequest extends VersionedRequest {
   type: "housekeeping";
 }
 
+// Never written; stands in for a request file that failed validation
 export interface InvalidRequest {
   type: "invalid";
+  reason: string;
+}
+
+// Why a request ended up in operation_queue_backup
+export interface OperationAttempt {
+  at: number;
+  error: string;
+}
+
+// Failed attempts of a queued request, kept next to it until it succeeds
+export interface OperationRetryState {
+  attempts: OperationAttempt[];
+  nextAttemptAt: number;
+}
+
+export interface OperationFailure {
+  error: string;
+  failedAt: number;
+  attempts: number;
+  // Missing on failures recorded before attempts were kept
+  history?: OperationAttempt[];
+}
+
+// "retrying" is recorded for each failed attempt that will be retried; the
+// request ends up "committed" or, once backed up, "failed"
+export type OperationStatus = "committed" | "failed" | "retrying";
+
+// Outcome of a request, recorded by the processor for callers awaiting it
+export interface OperationResult {
+  id: string;
+  status: OperationStatus;
+  completedAt: number;
+  error?: string;
+}
+
+export interface FailedOperation {
+  file: string;
+  request: OperationRequest;
+  // Missing when the failure could not be recorded
+  failure?: OperationFailure;
 }
 
 export type OperationRequest =
@@ -37,3 +85,157 @@ export type OperationRequest =
   | ProjectChangeRequest
   | HousekeepingRequest
   | InvalidRequest;
+
+export type OperationValidation =
+  { valid: true; request: OperationRequest } | { valid: false; reason: string };
+
+const PROJECT_CHANGE_ACTIONS: ProjectChangeRequest["action"][] = [
+  "add",
+  "delete",
+  "update",
+  "addUnbound",
+];
+
+// Checks a parsed request file, migrating older versions first
+export function validateOperationRequest(value: unknown): OperationValidation {
+  if (!isObject(value)) {
+    return invalid("request is not a JSON object");
+  }
+
+  const version = value.version ?? 0;
+  if (
+    typeof version !== "number" ||
+    !Number.isInteger(version) ||
+    version < 0
+  ) {
+    return invalid(`version ${JSON.stringify(version)} is not a number`);
+  }
+  if (version > OPERATION_REQUEST_VERSION) {
+    return invalid(
+      `version ${version} is newer than supported version ${OPERATION_REQUEST_VERSION}`,
+    );
+  }
+  const request = migrateOperationRequest(value, version);
+
+  // Rebuilt field by field from what was checked, at the current version
+  const type = request.type;
+  switch (type) {
+    case "processBatch":
+    case "housekeeping":
+      return valid({ type, version: OPERATION_REQUEST_VERSION });
+    case "timereport": {
+      const { file, body } = request;
+      if (!isNonEmptyString(file)) {
+        return invalid("timereport has no file");
+      }
+      if (!isSavedTimeReport(body)) {
+        return invalid(`timereport ${file} has no date and entries`);
+      }
+      return valid({ type, version: OPERATION_REQUEST_VERSION, file, body });
+    }
+    case "projects": {
+      const { file, body } = request;
+      if (!isNonEmptyString(file)) {
+        return invalid("projects has no file");
+      }
+      if (!isProjectMap(body)) {
+        return invalid(`projects ${file} has no project map`);
+      }
+      return valid({ type, version: OPERATION_REQUEST_VERSION, file, body });
+    }
+    case "projectChange": {
+      const action = request.action;
+      if (!isProjectChangeAction(action)) {
+        return invalid(
+          `projectChange has unknown action ${JSON.stringify(action)}`,
+        );
+      }
+      const required: ("branch" | "directory" | "project")[] =
+        action === "addUnbound"
+          ? ["project"]
+          : action === "delete"
+            ? ["branch", "directory"]
+            : ["branch", "directory", "project"];
+      const missing = required.filter(
+        (field) => typeof request[field] !== "string",
+      );
+      if (missing.length > 0) {
+        return invalid(
+          `projectChange ${action} is missing ${missing.join(", ")}`,
+        );
+      }
+      const change: ProjectChangeRequest = {
+        type,
+        version: OPERATION_REQUEST_VERSION,
+        action,
+      };
+      for (const field of ["branch", "directory", "project"] as const) {
+        const fieldValue = request[field];
+        if (typeof fieldValue === "string") {
+          change[field] = fieldValue;
+        }
+      }
+      return valid(change);
+    }
+    default:
+      return invalid(`unknown request type ${JSON.stringify(type)}`);
+  }
+}
+
+// Brings a request of an older version up to OPERATION_REQUEST_VERSION
+function migrateOperationRequest(
+  value: Record<string, unknown>,
+  version: number,
+): Record<string, unknown> {
+  const request = { ...value };
+  if (version < 1) {
+    // Unversioned requests already have the version 1 shape
+    request.version = 1;
+  }
+  return request;
+}
+
+function valid(request: OperationRequest): OperationValidation {
+  return { valid: true, request };
+}
+
+function invalid(reason: string): OperationValidation {
+  return { valid: false, reason: `Invalid request: ${reason}` };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.length > 0;
+}
+
+function isProjectChangeAction(
+  value: unknown,
+): value is ProjectChangeRequest["action"] {
+  return PROJECT_CHANGE_ACTIONS.some((action) => action === value);
+}
+
+// Only the shape is checked; entries are read field by field when loaded
+function isSavedTimeReport(
+  value: unknown,
+): value is import("../storage/timeReportRepository").SavedTimeReport {
+  return (
+    isObject(value) &&
+    typeof value.date === "string" &&
+    Array.isArray(value.entries)
+  );
+}
+
+// Branches map to directories, and "_unbound" to a list of projects
+function isProjectMap(
+  value: unknown,
+): value is import("../storage/projectRepository").ProjectMap {
+  return (
+    isObject(value) &&
+    Object.values(value).every(
+      (mapping) => typeof mapping === "object" && mapping !== null,
+    )
+  );
+}
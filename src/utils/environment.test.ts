@@ -0,0 +1,75 @@
+import * as assert from "assert";
+import {
+  describeEnvironment,
+  formatEnvironmentDirectory,
+  parseEnvironmentDirectory,
+  toEnvironmentDirectory,
+} from "./environment";
+
+suite("Environment Test Suite", () => {
+  test("toEnvironmentDirectory keeps local directories unchanged", () => {
+    assert.strictEqual(
+      toEnvironmentDirectory("/home/me/project"),
+      "/home/me/project",
+    );
+  });
+
+  test("toEnvironmentDirectory keys remote directories by authority", () => {
+    assert.strictEqual(
+      toEnvironmentDirectory("/home/me/project", "ssh-remote+build"),
+      "[ssh-remote+build]/home/me/project",
+    );
+  });
+
+  test("parseEnvironmentDirectory round-trips POSIX and Windows remotes", () => {
+    assert.deepStrictEqual(
+      parseEnvironmentDirectory(
+        toEnvironmentDirectory("/workspaces/app", "wsl+Ubuntu"),
+      ),
+      { directory: "/workspaces/app", remoteAuthority: "wsl+Ubuntu" },
+    );
+    assert.deepStrictEqual(
+      parseEnvironmentDirectory(
+        toEnvironmentDirectory("c:\\src\\app", "ssh-remote+win"),
+      ),
+      { directory: "c:\\src\\app", remoteAuthority: "ssh-remote+win" },
+    );
+  });
+
+  test("parseEnvironmentDirectory keeps non-path remote directories", () => {
+    assert.deepStrictEqual(
+      parseEnvironmentDirectory(
+        toEnvironmentDirectory("(loose files)", "ssh-remote+build"),
+      ),
+      { directory: "(loose files)", remoteAuthority: "ssh-remote+build" },
+    );
+  });
+
+  test("parseEnvironmentDirectory treats plain paths as local", () => {
+    assert.deepStrictEqual(parseEnvironmentDirectory("/home/me/project"), {
+      directory: "/home/me/project",
+    });
+  });
+
+  test("describeEnvironment names common remotes", () => {
+    assert.strictEqual(describeEnvironment(undefined), "Local");
+    assert.strictEqual(describeEnvironment("ssh-remote+build"), "SSH: build");
+    assert.strictEqual(describeEnvironment("wsl+Ubuntu"), "WSL: Ubuntu");
+    assert.strictEqual(
+      describeEnvironment("dev-container+7b22686f737450617468"),
+      "Dev Container",
+    );
+    assert.strictEqual(describeEnvironment("tunnel+box"), "tunnel: box");
+  });
+
+  test("formatEnvironmentDirectory prefixes remote directories", () => {
+    assert.strictEqual(
+      formatEnvironmentDirectory("[ssh-remote+build]/home/me/project"),
+      "[SSH: build] /home/me/project",
+    );
+    assert.strictEqual(
+      formatEnvironmentDirectory("/home/me/project"),
+      "/home/me/project",
+    );
+  });
+});
@@ -0,0 +1,64 @@
+// Where activity was recorded: the VS Code remote name ("ssh-remote",
+// "dev-container", "wsl", ...) and the full authority ("ssh-remote+myhost")
+export interface RemoteEnvironment {
+  name: string;
+  authority: string;
+}
+
+export const LOCAL_ENVIRONMENT = "Local";
+
+// Remote directories are keyed as "[authority]directory" so the same path on
+// two machines is never grouped together; local directories stay plain paths
+const REMOTE_DIRECTORY_PATTERN = /^\[([^\]]+)\](.*)$/;
+
+export function toEnvironmentDirectory(
+  directory: string,
+  remoteAuthority?: string,
+): string {
+  return remoteAuthority ? `[${remoteAuthority}]${directory}` : directory;
+}
+
+export function parseEnvironmentDirectory(key: string): {
+  directory: string;
+  remoteAuthority?: string;
+} {
+  const match = key.match(REMOTE_DIRECTORY_PATTERN);
+  if (!match) {
+    return { directory: key };
+  }
+  return { directory: match[2], remoteAuthority: match[1] };
+}
+
+export function describeEnvironment(remoteAuthority?: string): string {
+  if (!remoteAuthority) {
+    return LOCAL_ENVIRONMENT;
+  }
+  const plusIndex = remoteAuthority.indexOf("+");
+  const name =
+    plusIndex === -1
+      ? remoteAuthority
+      : remoteAuthority.substring(0, plusIndex);
+  const host = plusIndex === -1 ? "" : remoteAuthority.substring(plusIndex + 1);
+
+  switch (name) {
+    case "ssh-remote":
+      return `SSH: ${host}`;
+    case "wsl":
+      return `WSL: ${host}`;
+    case "dev-container":
+    case "attached-container":
+      // The host part is an encoded container description
+      return "Dev Container";
+    case "codespaces":
+      return `Codespaces: ${host}`;
+    default:
+      return host ? `${name}: ${host}` : name;
+  }
+}
+
+export function formatEnvironmentDirectory(key: string): string {
+  const { directory, remoteAuthority } = parseEnvironmentDirectory(key);
+  return remoteAuthority
+    ? `[${describeEnvironment(remoteAuthority)}] ${directory}`
+    : directory;
+}
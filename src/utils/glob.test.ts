@@ -0,0 +1,36 @@
+import * as assert from "assert";
+import { globToRegExp } from "./glob";
+
+suite("Glob Test Suite", () => {
+  test("globToRegExp matches a single path segment with *", () => {
+    const re = globToRegExp("*.lock");
+    assert.ok(re.test("yarn.lock"));
+    assert.ok(!re.test("sub/yarn.lock"));
+  });
+
+  test("globToRegExp matches zero or more directories with **/", () => {
+    const re = globToRegExp("**/*.lock");
+    assert.ok(re.test("yarn.lock"));
+    assert.ok(re.test("a/b/yarn.lock"));
+  });
+
+  test("globToRegExp matches everything below a trailing **", () => {
+    const re = globToRegExp("dist/**");
+    assert.ok(re.test("dist/a/b.js"));
+    assert.ok(!re.test("src/dist.js"));
+  });
+
+  test("globToRegExp supports ? and brace groups", () => {
+    assert.ok(globToRegExp("file?.ts").test("file1.ts"));
+    const re = globToRegExp("src/*.{ts,js}");
+    assert.ok(re.test("src/a.ts"));
+    assert.ok(re.test("src/a.js"));
+    assert.ok(!re.test("src/a.css"));
+  });
+
+  test("globToRegExp escapes regular expression characters", () => {
+    const re = globToRegExp("a+b(1).txt");
+    assert.ok(re.test("a+b(1).txt"));
+    assert.ok(!re.test("aab1.txt"));
+  });
+});
@@ -0,0 +1,46 @@
+const REGEXP_SPECIAL_CHARS = "\\^$.|+()[]{}";
+
+/**
+ * Converts a VS Code style glob pattern to a regular expression.
+ * Supports `**`, `*`, `?` and `{a,b}` groups. Paths use forward slashes.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = "";
+  let inGroup = false;
+  let i = 0;
+
+  while (i < pattern.length) {
+    const char = pattern[i];
+    if (char === "*") {
+      if (pattern[i + 1] === "*") {
+        // "**/" matches zero or more directories, a trailing "**" matches anything
+        if (pattern[i + 2] === "/") {
+          source += "(?:.*/)?";
+          i += 3;
+        } else {
+          source += ".*";
+          i += 2;
+        }
+        continue;
+      }
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "{" && !inGroup) {
+      inGroup = true;
+      source += "(?:";
+    } else if (char === "}" && inGroup) {
+      inGroup = false;
+      source += ")";
+    } else if (char === "," && inGroup) {
+      source += "|";
+    } else if (REGEXP_SPECIAL_CHARS.includes(char)) {
+      source += `\\${char}`;
+    } else {
+      source += char;
+    }
+    i++;
+  }
+
+  return new RegExp(`^${source}$`);
+}
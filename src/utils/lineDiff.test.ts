@@ -0,0 +1,63 @@
+import * as assert from "assert";
+import { computeLineDiff, splitLines } from "./lineDiff";
+
+suite("LineDiff Test Suite", () => {
+  function diff(before: string, after: string) {
+    return computeLineDiff(splitLines(before), splitLines(after));
+  }
+
+  test("identical content has no changes", () => {
+    assert.deepStrictEqual(diff("a\nb\nc", "a\nb\nc"), {
+      added: 0,
+      removed: 0,
+    });
+  });
+
+  test("a modified line counts as one added and one removed", () => {
+    assert.deepStrictEqual(diff("a\nb\nc", "a\nx\nc"), {
+      added: 1,
+      removed: 1,
+    });
+  });
+
+  test("counts lines added to and removed from an empty file", () => {
+    assert.deepStrictEqual(diff("", "a\nb"), { added: 2, removed: 0 });
+    assert.deepStrictEqual(diff("a\nb", ""), { added: 0, removed: 2 });
+  });
+
+  test("finds moved and inserted lines in the middle", () => {
+    assert.deepStrictEqual(diff("a\nb\nc\nd", "b\nc\nd\ne"), {
+      added: 1,
+      removed: 1,
+    });
+    assert.deepStrictEqual(diff("x\ny\nz", "y\nq\nz\nw"), {
+      added: 2,
+      removed: 1,
+    });
+  });
+
+  test("treats CRLF and LF line endings alike", () => {
+    assert.deepStrictEqual(diff("a\r\nb\r\n", "a\nb\n"), {
+      added: 0,
+      removed: 0,
+    });
+  });
+
+  test("only counts changed lines of a huge rewrite", () => {
+    const before = Array.from({ length: 5000 }, (_, i) => `line ${i}`);
+    const after = before.map((line, i) => (i % 2 ? `${line}!` : line));
+    assert.deepStrictEqual(computeLineDiff(before, after), {
+      added: 2500,
+      removed: 2500,
+    });
+  });
+
+  test("caps the work on large documents with many changes", () => {
+    const before = Array.from({ length: 100000 }, (_, i) => `line ${i}`);
+    const after = before.map((line, i) => (i % 3 ? line : `${line}!`));
+    const started = Date.now();
+    const result = computeLineDiff(before, after);
+    assert.ok(Date.now() - started < 1000);
+    assert.deepStrictEqual(result, { added: 33334, removed: 33334 });
+  });
+});
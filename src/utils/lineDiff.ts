@@ -0,0 +1,98 @@
+export interface LineDiff {
+  added: number;
+  removed: number;
+}
+
+// The diff runs on the extension host, so its work (lines compared and
+// diagonals tried) is capped; beyond that, changed lines are only counted
+const MAX_DIFF_STEPS = 1000000;
+
+export function splitLines(text: string): string[] {
+  return text.length === 0 ? [] : text.split(/\r?\n/);
+}
+
+// Line-level diff stat between two versions of a file (Myers' algorithm)
+export function computeLineDiff(before: string[], after: string[]): LineDiff {
+  // Common prefix and suffix never take part in the diff
+  let start = 0;
+  while (
+    start < before.length &&
+    start < after.length &&
+    before[start] === after[start]
+  ) {
+    start++;
+  }
+  let endBefore = before.length;
+  let endAfter = after.length;
+  while (
+    endBefore > start &&
+    endAfter > start &&
+    before[endBefore - 1] === after[endAfter - 1]
+  ) {
+    endBefore--;
+    endAfter--;
+  }
+
+  const a = before.slice(start, endBefore);
+  const b = after.slice(start, endAfter);
+  const distance = editDistance(a, b);
+  if (distance === null) {
+    return countChangedLines(a, b);
+  }
+  const common = (a.length + b.length - distance) / 2;
+  return { added: b.length - common, removed: a.length - common };
+}
+
+// Number of inserted plus deleted lines, or null once MAX_DIFF_STEPS is used up
+function editDistance(a: string[], b: string[]): number | null {
+  const n = a.length;
+  const m = b.length;
+  // The steps of edit distance d add up to about d * d / 2
+  const max = Math.min(n + m, Math.ceil(Math.sqrt(2 * MAX_DIFF_STEPS)));
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  let steps = 0;
+
+  for (let d = 0; d <= max; d++) {
+    steps += d + 1;
+    if (steps > MAX_DIFF_STEPS) {
+      return null;
+    }
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+        steps++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        return d;
+      }
+    }
+  }
+  return null;
+}
+
+// Lines only in one version, ignoring their order: linear and never more
+// than the exact diff, which also counts moved lines
+function countChangedLines(a: string[], b: string[]): LineDiff {
+  const remaining = new Map<string, number>();
+  for (const line of a) {
+    remaining.set(line, (remaining.get(line) ?? 0) + 1);
+  }
+  let added = 0;
+  for (const line of b) {
+    const count = remaining.get(line) ?? 0;
+    if (count > 0) {
+      remaining.set(line, count - 1);
+    } else {
+      added++;
+    }
+  }
+  return { added, removed: a.length - (b.length - added) };
+}